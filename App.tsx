@@ -1,180 +1,410 @@
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef, SetStateAction } from 'react';
 import SimulationCanvas from './components/SimulationCanvas';
 import { KnowledgeGraph } from './components/KnowledgeGraph';
-import { WorldObject, LogEntry, SimulationState, KnowledgeEntry, GroundingLink, ConstructionPlan, KnowledgeCategory, SettlementTier } from './types';
-import { decideNextAction, AIActionResponse } from './services/aiLogic';
-
-const PROXY_URL = "https://apiland.yusufsamodin67.workers.dev";
-const GOAL_SEQUENCE = [
-  "Synthesize Geothermal Energy Core",
-  "Deploy Biospheric Life Support Mesh",
-  "Construct Neural Uplink Spire",
-  "Establish Multi-Sector Synthesis Citadel"
-];
-
-const getTerrainHeight = (x: number, z: number) => {
-  return Math.sin(x * 0.2) * Math.cos(z * 0.2) * 1.2;
+import { DirectiveMode, LogEntry, PlanOutcome, PlanStepStatus, ResourceKind, SimulationState } from './types';
+import { DecisionProvider, createRemoteProvider, isAbortError, uplinkWaitProvider, withFallback } from './services/aiLogic';
+import { BreakerState, EndpointHealthSummary, createHealthTracker, deriveNetworkStatus, healthScore } from './services/endpointHealth';
+import { UplinkSettings, loadUplinkSettings, saveUplinkSettings } from './services/endpointSettings';
+import { UplinkSettingsPanel } from './components/UplinkSettings';
+import { Cassette, createCassette, createRecordingProvider, createReplayProvider, parseCassette, serializeCassette } from './services/cassette';
+import { downloadBlob, downloadText } from './services/fileTransfer';
+import { parseSeed, randomSeed } from './services/random';
+import { exportSettlementGlb } from './services/sceneExport';
+import { parseWorldFile, serializeWorld, stateFromWorld } from './services/worldFile';
+import { AUTOSAVE_SLOT, SaveSlotInfo, deleteSave, listSaves, readSave, writeSave } from './services/saveGame';
+import { DIRECTIVE_MODES } from './services/directives';
+import { QUALITY_MODES, QualityLevel, QualityMode } from './services/renderQuality';
+import { RESOURCE_KINDS } from './services/economy';
+import { isUnderConstruction } from './services/construction';
+import { localPlannerProvider } from './services/localPlanner';
+import { validateDecision } from './services/responseValidation';
+import { abortPlan, appendLog, createInitialState, decisionContext, importBlueprints, saveBlueprint, setAgentCount, step } from './services/simulationEngine';
+import { availableBlueprints, parseBlueprints, serializeBlueprints } from './services/blueprints';
+import { countSteps, dependencyLevels, stepLabel } from './services/planGraph';
+import { Timeline, canRedoPlacement, canUndoPlacement, branch, createTimeline, currentState, headState, isAtHead, recordStep, redoPlacement, seek, undoPlacement, updateCurrent, updateHead } from './services/timeline';
+import { MAX_AGENTS } from './services/scheduler';
+import { EVENT_SPECS, daylightFactor, describeClock } from './services/environment';
+
+type ProviderMode = 'remote' | 'hybrid' | 'local' | 'replay';
+
+const PROVIDER_MODES: ProviderMode[] = ['remote', 'hybrid', 'local', 'replay'];
+
+const healthTracker = createHealthTracker();
+
+const BREAKER_BADGES: Record<BreakerState, { label: string; className: string }> = {
+  closed: { label: 'Healthy', className: 'bg-emerald-500/20 text-emerald-400' },
+  half_open: { label: 'Probing', className: 'bg-amber-500/20 text-amber-400' },
+  open: { label: 'Tripped', className: 'bg-rose-500/20 text-rose-400' }
+};
+
+const enabledUrls = (settings: UplinkSettings) => settings.endpoints.filter(e => e.enabled).map(e => e.url);
+
+const createProvider = (mode: Exclude<ProviderMode, 'replay'>, settings: UplinkSettings): DecisionProvider => {
+  if (mode === 'local') return localPlannerProvider;
+  const remoteProvider = createRemoteProvider(settings.endpoints, healthTracker, settings.timeoutMs);
+  if (mode === 'hybrid') return withFallback(remoteProvider, localPlannerProvider);
+  return withFallback(remoteProvider, uplinkWaitProvider);
+};
+
+const RESOURCE_BAR_COLORS: Record<ResourceKind, string> = {
+  power: 'bg-amber-400',
+  water: 'bg-sky-400',
+  materials: 'bg-violet-400'
+};
+
+const AUTOSAVE_INTERVAL_MS = 30000;
+
+const STEP_STYLES: Record<PlanStepStatus, { card: string; dot: string }> = {
+  active: { card: 'bg-emerald-500/10 border-emerald-500 shadow-[0_0_20px_rgba(16,185,129,0.05)]', dot: 'bg-emerald-400 animate-pulse' },
+  pending: { card: 'bg-transparent border-white/5 opacity-20', dot: 'bg-white/10' },
+  completed: { card: 'bg-white/5 border-white/5 opacity-40', dot: 'bg-white/10' },
+  failed: { card: 'bg-rose-500/10 border-rose-500/40', dot: 'bg-rose-400' },
+  skipped: { card: 'bg-transparent border-white/5 opacity-30', dot: 'bg-rose-400/30' }
+};
+
+const PLAN_OUTCOME_COLORS: Record<PlanOutcome, string> = {
+  completed: 'text-emerald-300',
+  failed: 'text-rose-300',
+  aborted: 'text-rose-300/60',
+  replaced: 'text-amber-300/70'
+};
+
+const NETWORK_STATUS_DISPLAY: Record<SimulationState['networkStatus'], { label: string; dot: string }> = {
+  syncing: { label: 'SYNTHESIZING', dot: 'bg-sky-400 animate-pulse' },
+  uplink_active: { label: 'ACTIVE', dot: 'bg-emerald-400 shadow-[0_0_8px_#34d399]' },
+  degraded: { label: 'DEGRADED', dot: 'bg-amber-400 shadow-[0_0_8px_#fbbf24]' },
+  offline: { label: 'OFFLINE', dot: 'bg-rose-400' }
 };
 
 function App() {
-  const [state, setState] = useState<SimulationState>({
-    objects: [],
-    logs: [{ id: '1', type: 'success', message: `Uplink established via ${PROXY_URL}`, timestamp: Date.now() }],
-    knowledgeBase: [],
-    currentGoal: GOAL_SEQUENCE[0],
-    learningIteration: 0,
-    networkStatus: 'uplink_active',
-    activePlan: undefined,
-    isScanning: false,
-    progression: {
-      complexityLevel: 1,
-      structuresCompleted: 0,
-      totalBlocks: 0,
-      unlockedBlueprints: ['Geothermal Core', 'Neural Scaling'],
-      settlementTier: 'Outpost'
-    },
-    ui: { showStats: true, showKnowledge: true, showLogs: true, showPlanning: true }
-  });
-
-  const [avatarPos, setAvatarPos] = useState<[number, number, number]>([0, 0, 0]);
+  const [uplinkSettings, setUplinkSettings] = useState<UplinkSettings>(loadUplinkSettings);
+  const [timeline, setTimeline] = useState<Timeline>(() =>
+    createTimeline(appendLog(createInitialState(), `Uplink established via ${enabledUrls(uplinkSettings)[0] ?? 'local planner'}`, 'success')));
+  // Everything on screen follows the selected timeline entry.
+  const state = currentState(timeline);
+  const setState = useCallback((update: SetStateAction<SimulationState>) => {
+    setTimeline(t => updateCurrent(t, typeof update === 'function' ? update(currentState(t)) : update));
+  }, []);
+  // Logs and uplink status always belong to the latest step, whichever one is on screen.
+  const head = headState(timeline);
+  const setHead = useCallback((update: (prev: SimulationState) => SimulationState) => {
+    setTimeline(t => updateHead(t, update(headState(t))));
+  }, []);
+  // Starts a new timeline for a different world (reset, reseed, load).
+  const startTimeline = useCallback((update: (prev: SimulationState) => SimulationState) => {
+    setTimeline(t => createTimeline(update(currentState(t))));
+  }, []);
+
+  const [seedInput, setSeedInput] = useState(() => String(state.seed));
   const [isProcessing, setIsProcessing] = useState(false);
   const [isAuto, setIsAuto] = useState(true);
   const [currentTask, setCurrentTask] = useState<string>("Standby for Neural Input...");
   const [taskProgress, setTaskProgress] = useState(0);
   const [latency, setLatency] = useState(0);
+  const [providerMode, setProviderMode] = useState<ProviderMode>('hybrid');
+  const [showUplinkSettings, setShowUplinkSettings] = useState(false);
+  const [isRecording, setIsRecording] = useState(false);
+  const [recordedCount, setRecordedCount] = useState(0);
+  const [replayCassette, setReplayCassette] = useState<Cassette | null>(null);
+  const recordingRef = useRef<Cassette>(createCassette());
+  const cassetteInputRef = useRef<HTMLInputElement>(null);
+  const [blueprintName, setBlueprintName] = useState('');
+  const [saveSlots, setSaveSlots] = useState<SaveSlotInfo[]>([]);
+  const [slotName, setSlotName] = useState('');
+  const [savesReady, setSavesReady] = useState(false);
+  const [qualityMode, setQualityMode] = useState<QualityMode>('auto');
+  const [renderStats, setRenderStats] = useState<{ fps: number; level: QualityLevel } | null>(null);
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  // Autosave keeps the newest step even while an earlier one is on screen.
+  const headRef = useRef(head);
+  headRef.current = head;
+  const blueprintInputRef = useRef<HTMLInputElement>(null);
+  const worldInputRef = useRef<HTMLInputElement>(null);
+  const replayProvider = useMemo(() => replayCassette ? createReplayProvider(replayCassette) : null, [replayCassette]);
+  const provider = useMemo(() => {
+    const base = providerMode === 'replay' ? replayProvider ?? uplinkWaitProvider : createProvider(providerMode, uplinkSettings);
+    return isRecording ? createRecordingProvider(base, recordingRef.current, () => setRecordedCount(c => c + 1)) : base;
+  }, [providerMode, uplinkSettings, replayProvider, isRecording]);
+  const [endpointHealth, setEndpointHealth] = useState<EndpointHealthSummary[]>(() => healthTracker.snapshot(enabledUrls(uplinkSettings)));
   const logContainerRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
   const addLog = useCallback((message: string, type: LogEntry['type'] = 'action') => {
-    setState(prev => ({
-      ...prev,
-      logs: [...prev.logs, { id: Math.random().toString(), type, message, timestamp: Date.now() }]
-    }));
-  }, []);
+    setHead(prev => appendLog(prev, message, type));
+  }, [setHead]);
 
   const runSimulationStep = useCallback(async () => {
     if (isProcessing) return;
     setIsProcessing(true);
     const startTime = Date.now();
-    setState(prev => ({ ...prev, networkStatus: 'syncing', isScanning: true }));
+    // A decision made from an earlier step starts a branch there.
+    setTimeline(t => branch(t));
+    setHead(prev => ({ ...prev, networkStatus: 'syncing', isScanning: true }));
     setTaskProgress(10);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    let streamedSteps = 0;
+    let streamedTokens = 0;
+    let answeredBy = provider;
 
     try {
-      const decision: AIActionResponse = await decideNextAction(
-        state.logs, 
-        state.objects, 
-        state.currentGoal, 
-        state.knowledgeBase,
-        getTerrainHeight,
-        state.progression,
-        state.activePlan
-      );
+      const raw = await provider.decide(decisionContext(state, { maxChars: uplinkSettings.promptBudgetChars }), {
+        signal: controller.signal,
+        onFallback: fallback => { answeredBy = fallback; },
+        onEvent: event => {
+          if (event.type === 'step') {
+            streamedSteps++;
+            addLog(`[SYNAPSE]: ${event.text}`, 'thinking');
+            setTaskProgress(p => Math.min(55, p + 5));
+          } else {
+            streamedTokens++;
+            if (streamedTokens % 20 === 0) setTaskProgress(p => Math.min(55, p + 1));
+          }
+        }
+      });
+      if (controller.signal.aborted) return;
+      if (answeredBy !== provider) addLog(`UPLINK_FALLBACK: decision supplied by ${answeredBy.label}`, 'error');
+      const { value: decision, issues } = validateDecision(raw, state.activePlan);
+      issues.forEach(issue => addLog(`SCHEMA_REPAIR: ${issue}`, 'error'));
       
       setLatency(Date.now() - startTime);
-      setTaskProgress(30);
       
-      if (decision.reasoningSteps) {
-        for (const step of decision.reasoningSteps) {
-          addLog(`[SYNAPSE]: ${step}`, 'thinking');
-          await new Promise(r => setTimeout(r, 400));
-        }
+      // Providers that cannot stream deliver all steps with the decision.
+      if (streamedSteps === 0) {
+        decision.reasoningSteps.forEach(text => addLog(`[SYNAPSE]: ${text}`, 'thinking'));
       }
 
       setCurrentTask(decision.taskLabel);
       setTaskProgress(60);
 
-      if (decision.action === 'PLACE') {
-        let nextPlan = decision.plan || state.activePlan;
-        const targetType = decision.objectType || (nextPlan ? nextPlan.steps[nextPlan.currentStepIndex].type : 'modular_unit');
-        let targetPos = decision.position || (nextPlan ? nextPlan.steps[nextPlan.currentStepIndex].position : [0,0,0]);
-
-        targetPos = [targetPos[0], getTerrainHeight(targetPos[0], targetPos[2]), targetPos[2]];
-
-        addLog(`DATA_SYNTH_DEPLOY: ${targetType} via Proxy Node`, 'success');
-        setAvatarPos(targetPos as [number, number, number]);
-        
-        await new Promise(r => setTimeout(r, 800));
-        setTaskProgress(100);
-
-        const newObj: WorldObject = {
-          id: Math.random().toString(),
-          type: targetType as any,
-          position: targetPos as [number, number, number],
-          rotation: [0, 0, 0],
-          scale: [1, 1, 1],
-          timestamp: Date.now()
-        };
-
-        setState(prev => {
-          let updatedPlan = decision.plan || prev.activePlan;
-          if (updatedPlan) {
-            const steps = [...updatedPlan.steps];
-            steps[updatedPlan.currentStepIndex].status = 'completed';
-            const nextIdx = updatedPlan.currentStepIndex + (decision.plan ? 0 : 1);
-            if (nextIdx < steps.length) {
-              steps[nextIdx].status = 'active';
-              updatedPlan = { ...updatedPlan, steps, currentStepIndex: nextIdx };
-            } else {
-              updatedPlan = undefined;
-            }
-          }
-
-          const newTotal = prev.objects.length + 1;
-          let tier: SettlementTier = 'Outpost';
-          if (newTotal > 15) tier = 'Citadel';
-          else if (newTotal > 8) tier = 'Settlement';
-          else if (newTotal > 4) tier = 'Colony';
-
-          let nextGoal = prev.currentGoal;
-          if (newTotal > 12) nextGoal = GOAL_SEQUENCE[3];
-          else if (newTotal > 7) nextGoal = GOAL_SEQUENCE[2];
-          else if (newTotal > 3) nextGoal = GOAL_SEQUENCE[1];
-
-          const newKnowledge = [...prev.knowledgeBase];
-          const title = decision.learningNote.split(':')[0] || "Neural Synthesis";
-          
-          if (!newKnowledge.some(k => k.title === title)) {
-            newKnowledge.push({
-              id: Math.random().toString(),
-              title,
-              description: decision.learningNote,
-              category: decision.knowledgeCategory,
-              iteration: prev.learningIteration,
-              timestamp: Date.now(),
-              links: decision.groundingLinks,
-              isHighlight: true
-            });
-          }
-
-          return {
-            ...prev,
-            objects: [...prev.objects, newObj],
-            currentGoal: nextGoal,
-            learningIteration: prev.learningIteration + 1,
-            activePlan: updatedPlan,
-            knowledgeBase: newKnowledge,
-            progression: {
-              ...prev.progression,
-              totalBlocks: newTotal,
-              settlementTier: tier,
-              complexityLevel: Math.floor(newTotal / 4) + 1
-            }
-          };
-        });
-      } else if (decision.action === 'MOVE') {
-        const movePos = decision.position || [avatarPos[0] + (Math.random() - 0.5) * 15, 0, avatarPos[2] + (Math.random() - 0.5) * 15];
-        setAvatarPos([movePos[0], getTerrainHeight(movePos[0], movePos[2]), movePos[2]]);
-        addLog(`RECALIBRATING_SECTOR: Querying for new coordinates.`, 'action');
-      }
+      setTimeline(t => recordStep(t, decision, step(currentState(t), decision)));
+      setTaskProgress(100);
     } catch (e) {
-      addLog("Neural link timeout. Retrying connectivity...", "error");
+      if (isAbortError(e, controller.signal)) {
+        addLog("Directive cancelled: switched to manual control.", "action");
+      } else {
+        addLog("Neural link timeout. Retrying connectivity...", "error");
+      }
     } finally {
+      if (abortRef.current === controller) abortRef.current = null;
       setIsProcessing(false);
       setTaskProgress(0);
-      setState(prev => ({ ...prev, networkStatus: 'uplink_active', isScanning: false }));
+      setHead(prev => ({ ...prev, networkStatus: providerMode === 'local' || providerMode === 'replay' ? 'offline' : deriveNetworkStatus(healthTracker.snapshot(enabledUrls(uplinkSettings))), isScanning: false }));
       setCurrentTask(isAuto ? "Streaming Neural Data..." : "Manual Standby");
     }
-  }, [isProcessing, state, isAuto, addLog, avatarPos]);
+  }, [isProcessing, state, isAuto, addLog, provider, providerMode, uplinkSettings]);
+
+  useEffect(() => {
+    const refresh = () => setEndpointHealth(healthTracker.snapshot(enabledUrls(uplinkSettings)));
+    refresh();
+    return healthTracker.subscribe(refresh);
+  }, [uplinkSettings]);
+
+  const applyUplinkSettings = useCallback((next: UplinkSettings) => {
+    saveUplinkSettings(next);
+    setUplinkSettings(next);
+    setShowUplinkSettings(false);
+    addLog(`Uplink routing updated: ${next.endpoints.filter(e => e.enabled).map(e => e.label).join(' -> ') || 'no endpoints enabled'}`, 'success');
+  }, [addLog]);
+
+  const toggleRecording = useCallback(() => {
+    if (!isRecording) {
+      recordingRef.current = createCassette(state.seed);
+      setRecordedCount(0);
+    }
+    setIsRecording(!isRecording);
+  }, [isRecording, state.seed]);
+
+  const saveCassette = useCallback(() => {
+    downloadText(`cassette-${recordingRef.current.createdAt}.json`, serializeCassette(recordingRef.current));
+  }, []);
+
+  const loadCassette = useCallback(async (file: File) => {
+    try {
+      const cassette = parseCassette(await file.text());
+      // The tape only matches the world it was recorded against, so replay starts from that seed.
+      const seed = cassette.seed ?? state.seed;
+      abortRef.current?.abort();
+      setSeedInput(String(seed));
+      startTimeline(prev => appendLog({ ...createInitialState(seed, { directiveMode: prev.directiveMode, agentCount: prev.agents.length }), ui: prev.ui, blueprints: prev.blueprints },
+        `Cassette loaded: world reset to seed ${seed}, ${cassette.entries.length} recorded decisions queued for replay.`, 'success'));
+      setReplayCassette(cassette);
+      setProviderMode('replay');
+    } catch (e) {
+      addLog(`Cassette rejected: ${e instanceof Error ? e.message : String(e)}`, 'error');
+    }
+  }, [addLog, startTimeline, state.seed]);
+
+  const saveCluster = useCallback(() => {
+    setState(prev => saveBlueprint(prev, blueprintName));
+    setBlueprintName('');
+  }, [blueprintName]);
+
+  const exportBlueprints = useCallback(() => {
+    downloadText(`blueprints-${Date.now()}.json`, serializeBlueprints(state.blueprints));
+  }, [state.blueprints]);
+
+  const loadBlueprints = useCallback(async (file: File) => {
+    try {
+      const blueprints = parseBlueprints(await file.text());
+      setState(prev => importBlueprints(prev, blueprints));
+    } catch (e) {
+      addLog(`Blueprint file rejected: ${e instanceof Error ? e.message : String(e)}`, 'error');
+    }
+  }, [addLog]);
+
+  const blueprintLibrary = useMemo(() => availableBlueprints(state.blueprints, state.progression.unlockedBlueprints), [state.blueprints, state.progression.unlockedBlueprints]);
+
+  const planLevels = useMemo(() => state.activePlan ? dependencyLevels(state.activePlan) : [], [state.activePlan]);
+
+  const damagedCount = useMemo(() => state.objects.filter(o => o.condition === 'damaged' || o.condition === 'wrecked').length, [state.objects]);
+
+  const buildProgress = useMemo(() => new Map(state.objects.filter(isUnderConstruction).map(o => [o.id, o.buildProgress!])), [state.objects]);
+
+  const endpointLabels = useMemo(() => new Map(uplinkSettings.endpoints.map(e => [e.url, e.label])), [uplinkSettings]);
+
+  const preferredEndpoint = useMemo(() => {
+    const routable = endpointHealth.filter(h => h.breaker !== 'open');
+    const pool = routable.length ? routable : endpointHealth;
+    return pool.slice().sort((a, b) => healthScore(a, healthTracker.config) - healthScore(b, healthTracker.config))[0];
+  }, [endpointHealth]);
+
+  const refreshSaves = useCallback(() => {
+    listSaves().then(setSaveSlots, () => setSaveSlots([]));
+  }, []);
+
+  const resume = useCallback((restored: SimulationState, message: string) => {
+    abortRef.current?.abort();
+    setSeedInput(String(restored.seed));
+    startTimeline(prev => appendLog({ ...restored, ui: prev.ui }, message, 'success'));
+  }, [startTimeline]);
+
+  // Resume the last autosave before autosaving starts, so a fresh world never overwrites it.
+  useEffect(() => {
+    readSave(AUTOSAVE_SLOT)
+      .then(restored => { if (restored) resume(restored, `Resumed autosave at ${describeClock(restored.tick)}.`); })
+      .catch(e => addLog(`Autosave not restored: ${e instanceof Error ? e.message : String(e)}`, 'error'))
+      .finally(() => { setSavesReady(true); refreshSaves(); });
+  }, [addLog, refreshSaves, resume]);
+
+  useEffect(() => {
+    if (!savesReady) return;
+    const autosave = () => writeSave(AUTOSAVE_SLOT, headRef.current).then(refreshSaves, e => console.warn('Autosave failed:', e));
+    const onHide = () => { if (document.visibilityState === 'hidden') autosave(); };
+    const t = setInterval(autosave, AUTOSAVE_INTERVAL_MS);
+    document.addEventListener('visibilitychange', onHide);
+    return () => {
+      clearInterval(t);
+      document.removeEventListener('visibilitychange', onHide);
+    };
+  }, [savesReady, refreshSaves]);
+
+  const saveToSlot = useCallback(async () => {
+    const slot = slotName.trim();
+    if (!slot) return;
+    try {
+      await writeSave(slot, stateRef.current);
+      setSlotName('');
+      addLog(`Saved to slot "${slot}".`, 'success');
+    } catch (e) {
+      addLog(`Save to "${slot}" failed: ${e instanceof Error ? e.message : String(e)}`, 'error');
+    }
+    refreshSaves();
+  }, [slotName, addLog, refreshSaves]);
+
+  const loadSlot = useCallback(async (slot: string) => {
+    try {
+      const restored = await readSave(slot);
+      if (!restored) throw new Error(`Slot "${slot}" is empty`);
+      resume(restored, `Loaded slot "${slot}" at ${describeClock(restored.tick)}.`);
+    } catch (e) {
+      addLog(`Load failed: ${e instanceof Error ? e.message : String(e)}`, 'error');
+    }
+  }, [addLog, resume]);
+
+  const exportGlb = useCallback(async () => {
+    try {
+      const glb = await exportSettlementGlb(stateRef.current.objects);
+      downloadBlob(`settlement-${Date.now()}.glb`, new Blob([glb], { type: 'model/gltf-binary' }));
+    } catch (e) {
+      addLog(`GLB export failed: ${e instanceof Error ? e.message : String(e)}`, 'error');
+    }
+  }, [addLog]);
+
+  const updateRenderStats = useCallback((fps: number, level: QualityLevel) => setRenderStats({ fps, level }), []);
+
+  const exportWorld = useCallback(() => {
+    downloadText(`world-${Date.now()}.json`, serializeWorld(stateRef.current));
+  }, []);
+
+  const loadWorld = useCallback(async (file: File) => {
+    try {
+      const world = parseWorldFile(await file.text());
+      const restored = stateFromWorld(world, { agentCount: stateRef.current.agents.length });
+      abortRef.current?.abort();
+      setSeedInput(String(restored.seed));
+      startTimeline(prev => ({ ...restored, ui: prev.ui, blueprints: prev.blueprints }));
+    } catch (e) {
+      addLog(`World file rejected: ${e instanceof Error ? e.message : String(e)}`, 'error');
+    }
+  }, [addLog, startTimeline]);
+
+  const removeSlot = useCallback(async (slot: string) => {
+    try {
+      await deleteSave(slot);
+    } catch (e) {
+      addLog(`Deleting "${slot}" failed: ${e instanceof Error ? e.message : String(e)}`, 'error');
+    }
+    refreshSaves();
+  }, [addLog, refreshSaves]);
+
+  const systemReset = useCallback(() => {
+    const seed = randomSeed();
+    abortRef.current?.abort();
+    setSeedInput(String(seed));
+    startTimeline(prev => appendLog({ ...createInitialState(seed, { directiveMode: prev.directiveMode, agentCount: prev.agents.length }), ui: prev.ui, blueprints: prev.blueprints }, `System reset: new world seeded ${seed}.`, 'success'));
+  }, [startTimeline]);
+
+  const reseed = useCallback(() => {
+    const seed = parseSeed(seedInput);
+    abortRef.current?.abort();
+    setSeedInput(String(seed));
+    startTimeline(prev => appendLog({ ...createInitialState(seed, { directiveMode: prev.directiveMode, agentCount: prev.agents.length }), ui: prev.ui, blueprints: prev.blueprints }, `World reseeded: ${seed}`, 'success'));
+  }, [seedInput, startTimeline]);
+
+  const setDirectiveMode = useCallback((mode: DirectiveMode) => {
+    setState(prev => prev.directiveMode === mode ? prev : appendLog({ ...prev, directiveMode: mode }, `Directive enforcement set to ${mode}.`, 'action'));
+  }, []);
+
+  const changeAgentCount = useCallback((delta: number) => {
+    setState(prev => setAgentCount(prev, prev.agents.length + delta));
+  }, []);
+
+  const switchToManual = useCallback(() => {
+    setIsAuto(false);
+    abortRef.current?.abort();
+  }, []);
+
+  // Looking back pauses the run; the next directive branches from the selected step.
+  const travel = useCallback((move: (t: Timeline) => Timeline) => {
+    switchToManual();
+    setTimeline(move);
+  }, [switchToManual]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) travel(undoPlacement);
+      else if (key === 'y' || (key === 'z' && e.shiftKey)) travel(redoPlacement);
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [travel]);
 
   // Fix: Implemented triggerScan to manually invoke the simulation step from the UI.
   const triggerScan = useCallback(() => {
@@ -192,7 +422,7 @@ function App() {
 
   useEffect(() => {
     if (logContainerRef.current) logContainerRef.current.scrollTo({ top: logContainerRef.current.scrollHeight, behavior: 'smooth' });
-  }, [state.logs]);
+  }, [head.logs]);
 
   return (
     <div className="relative w-full h-screen overflow-hidden text-slate-100 bg-[#010409] font-sans selection:bg-sky-500/30">
@@ -208,9 +438,44 @@ function App() {
           <div className="flex flex-col">
             <div className="flex items-center gap-2">
               <span className="text-[10px] font-black uppercase tracking-[0.2em] text-white/40 leading-none">Proxy Uplink</span>
-              <span className="px-1.5 py-0.5 bg-emerald-500/20 text-emerald-400 text-[8px] font-black rounded uppercase">Verified</span>
+              {providerMode === 'local' || providerMode === 'replay' ? (
+                <span className="px-1.5 py-0.5 bg-white/10 text-white/50 text-[8px] font-black rounded uppercase">Offline</span>
+              ) : preferredEndpoint && (
+                <span className={`px-1.5 py-0.5 text-[8px] font-black rounded uppercase ${BREAKER_BADGES[preferredEndpoint.breaker].className}`} title={preferredEndpoint.lastError}>{BREAKER_BADGES[preferredEndpoint.breaker].label}</span>
+              )}
+            </div>
+            <span className="text-[11px] font-mono font-bold text-sky-100">{providerMode === 'local' || providerMode === 'replay' ? provider.label : preferredEndpoint?.endpoint ?? 'no endpoints enabled'}</span>
+            {(providerMode === 'remote' || providerMode === 'hybrid') && (
+              <div className="flex gap-3 mt-1">
+                {endpointHealth.map(h => (
+                  <span key={h.endpoint} className="text-[8px] font-mono text-white/30" title={h.lastError}>
+                     {endpointLabels.get(h.endpoint)}: {BREAKER_BADGES[h.breaker].label} · {(h.errorRate * 100).toFixed(0)}%err · {h.averageLatency ?? '--'}ms
+                  </span>
+                ))}
+              </div>
+            )}
+            <div className="flex gap-1 mt-2">
+              {PROVIDER_MODES.map(m => (
+                <button key={m} onClick={() => setProviderMode(m)} disabled={m === 'replay' && !replayCassette}
+                  className={`px-2 py-0.5 rounded text-[8px] font-black uppercase tracking-widest transition-all ${providerMode === m ? 'bg-sky-500 text-white' : 'text-white/30 hover:text-white hover:bg-white/5'}`}>
+                  {m}{m === 'replay' && replayProvider ? ` ${replayProvider.remaining()}` : ''}
+                </button>
+              ))}
+              <button onClick={() => setShowUplinkSettings(v => !v)}
+                className={`px-2 py-0.5 rounded text-[8px] font-black uppercase tracking-widest transition-all ${showUplinkSettings ? 'bg-white text-slate-900' : 'text-white/30 hover:text-white hover:bg-white/5'}`}>
+                Config
+              </button>
+            </div>
+            <div className="flex gap-1 mt-1">
+              <button onClick={toggleRecording}
+                className={`px-2 py-0.5 rounded text-[8px] font-black uppercase tracking-widest transition-all ${isRecording ? 'bg-rose-500 text-white animate-pulse' : 'text-white/30 hover:text-white hover:bg-white/5'}`}>
+                Rec{isRecording || recordedCount ? ` ${recordedCount}` : ''}
+              </button>
+              <button onClick={saveCassette} disabled={recordedCount === 0} className="px-2 py-0.5 rounded text-[8px] font-black uppercase tracking-widest text-white/30 hover:text-white hover:bg-white/5 disabled:opacity-30">Save_Tape</button>
+              <button onClick={() => cassetteInputRef.current?.click()} className="px-2 py-0.5 rounded text-[8px] font-black uppercase tracking-widest text-white/30 hover:text-white hover:bg-white/5">Load_Tape</button>
+              <input ref={cassetteInputRef} type="file" accept="application/json,.json" className="hidden"
+                onChange={e => { const file = e.target.files?.[0]; if (file) loadCassette(file); e.target.value = ''; }} />
             </div>
-            <span className="text-[11px] font-mono font-bold text-sky-100">{PROXY_URL}</span>
           </div>
           <div className="h-8 w-px bg-white/10 mx-2" />
           <div className="flex flex-col items-end">
@@ -218,6 +483,10 @@ function App() {
             <span className="text-sm font-mono font-bold text-white">{latency || '--'}</span>
           </div>
         </div>
+
+        {showUplinkSettings && (
+          <UplinkSettingsPanel settings={uplinkSettings} onSave={applyUplinkSettings} onClose={() => setShowUplinkSettings(false)} />
+        )}
         
         {/* Animated Data Stream */}
         {isProcessing && (
@@ -241,29 +510,66 @@ function App() {
           ))}
         </div>
         <div className="flex items-center gap-4 bg-white/5 px-6 py-3 rounded-full border border-white/10 backdrop-blur-xl shadow-inner">
-          <div className={`w-2 h-2 rounded-full ${state.networkStatus === 'syncing' ? 'bg-sky-400 animate-pulse' : 'bg-emerald-400 shadow-[0_0_8px_#34d399]'}`} />
-          <span className="text-[10px] font-black uppercase tracking-[0.3em] text-white/60">NODE_UPLINK: {state.networkStatus === 'syncing' ? 'SYNTHESIZING' : 'ACTIVE'}</span>
+          <div className={`w-2 h-2 rounded-full ${NETWORK_STATUS_DISPLAY[head.networkStatus].dot}`} />
+          <span className="text-[10px] font-black uppercase tracking-[0.3em] text-white/60">NODE_UPLINK: {NETWORK_STATUS_DISPLAY[head.networkStatus].label}</span>
         </div>
       </div>
 
       {/* PLANNING HUD */}
-      {state.ui.showPlanning && state.activePlan && (
+      {state.ui.showPlanning && (state.activePlan || state.planHistory.length > 0) && (
         <div className="absolute top-8 left-1/2 -translate-x-1/2 z-10 w-[440px] p-8 bg-black/80 backdrop-blur-[60px] border border-white/10 rounded-[40px] shadow-2xl animate-in zoom-in-95 duration-700">
-          <div className="flex flex-col gap-1 mb-6 border-l-2 border-emerald-500 pl-5">
-            <span className="text-[9px] font-black uppercase text-emerald-400/40 tracking-[0.4em]">Synaptic Chain</span>
-            <h2 className="text-xl font-black italic uppercase tracking-tighter text-white">{state.activePlan.objective}</h2>
-          </div>
-          <div className="space-y-3 max-h-[250px] overflow-y-auto custom-scrollbar pr-2">
-            {state.activePlan.steps.map((step, idx) => (
-              <div key={idx} className={`relative flex items-center justify-between p-4 rounded-[20px] border transition-all duration-500 ${step.status === 'active' ? 'bg-emerald-500/10 border-emerald-500 shadow-[0_0_20px_rgba(16,185,129,0.05)]' : step.status === 'completed' ? 'bg-white/5 border-white/5 opacity-40' : 'bg-transparent border-white/5 opacity-20'}`}>
-                <div className="flex items-center gap-4">
-                  <div className={`w-2 h-2 rounded-full ${step.status === 'active' ? 'bg-emerald-400 animate-pulse' : 'bg-white/10'}`} />
-                  <span className="text-xs font-bold tracking-tight uppercase">{step.label}</span>
+          {state.activePlan && (
+            <>
+              <div className="flex items-start justify-between mb-6">
+                <div className="flex flex-col gap-1 border-l-2 border-emerald-500 pl-5">
+                  <span className="text-[9px] font-black uppercase text-emerald-400/40 tracking-[0.4em]">Synaptic Chain{state.activePlan.sourceBlueprint ? ` · ${state.activePlan.sourceBlueprint}` : ''}</span>
+                  <h2 className="text-xl font-black italic uppercase tracking-tighter text-white">{state.activePlan.objective}</h2>
                 </div>
-                <span className="text-[9px] font-mono text-emerald-300/30">L_{idx.toString().padStart(2, '0')}</span>
+                <button onClick={() => setState(prev => abortPlan(prev))} className="px-2 py-0.5 rounded text-[8px] font-black uppercase tracking-widest text-rose-300/50 hover:text-rose-200 hover:bg-rose-500/10">Abort</button>
               </div>
-            ))}
-          </div>
+              <div className="space-y-4 max-h-[250px] overflow-y-auto custom-scrollbar pr-2">
+                {planLevels.map((level, depth) => (
+                  <div key={depth} className="space-y-2">
+                    <span className="text-[8px] font-black uppercase tracking-[0.3em] text-white/20">Stage_{depth}</span>
+                    {level.map(idx => {
+                      const step = state.activePlan!.steps[idx];
+                      return (
+                        <div key={idx} className={`relative flex items-center justify-between p-4 rounded-[20px] border transition-all duration-500 ${STEP_STYLES[step.status].card}`}>
+                          <div className="flex items-center gap-4">
+                            <div className={`w-2 h-2 rounded-full ${STEP_STYLES[step.status].dot}`} />
+                            <div className="flex flex-col">
+                              <span className={`text-xs font-bold tracking-tight uppercase ${step.status === 'skipped' ? 'line-through' : ''}`}>{step.label}</span>
+                              {step.reason && <span className="text-[9px] font-mono text-rose-300/70">{step.reason}</span>}
+                            </div>
+                          </div>
+                          <div className="flex items-center gap-3">
+                            {buildProgress.has(step.objectId ?? '') && (
+                              <span className="text-[9px] font-mono text-amber-300/70">BUILD_{Math.round(buildProgress.get(step.objectId!)! * 100)}%</span>
+                            )}
+                            {step.dependsOn?.length ? <span className="text-[9px] font-mono text-white/20">after {step.dependsOn.map(stepLabel).join(' ')}</span> : null}
+                            <span className="text-[9px] font-mono text-emerald-300/30">{stepLabel(idx)}</span>
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+          {state.planHistory.length > 0 && (
+            <div className={state.activePlan ? 'mt-6 pt-5 border-t border-white/5' : ''}>
+              <span className="text-[9px] font-black uppercase text-white/20 tracking-[0.4em] block mb-2">Plan_Archive</span>
+              <div className="space-y-1.5 max-h-[120px] overflow-y-auto custom-scrollbar pr-2">
+                {state.planHistory.slice().reverse().map(record => (
+                  <div key={`${record.plan.planId}-${record.endedTick}`} title={record.reason} className="flex items-center justify-between gap-3 text-[9px] font-mono">
+                    <span className="text-white/50 truncate">{record.plan.objective}</span>
+                    <span className={`shrink-0 ${PLAN_OUTCOME_COLORS[record.outcome]}`}>{record.outcome.toUpperCase()} {countSteps(record.plan, 'completed')}/{record.plan.steps.length}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
       )}
 
@@ -287,10 +593,155 @@ function App() {
               <div className="bg-white/5 p-5 rounded-2xl border border-white/5"><div className="text-[8px] font-black text-white/10 uppercase mb-1">Synapses</div><div className="text-2xl font-mono font-bold text-white">{state.progression.totalBlocks}</div></div>
               <div className="bg-white/5 p-5 rounded-2xl border border-white/5"><div className="text-[8px] font-black text-white/10 uppercase mb-1">Scale_Factor</div><div className="text-2xl font-mono font-bold text-white">x{state.progression.complexityLevel.toFixed(1)}</div></div>
             </div>
+            <div className="bg-white/5 px-5 py-4 rounded-2xl border border-white/5">
+              <div className="flex justify-between items-baseline">
+                <span className="text-[8px] font-black text-white/10 uppercase">World_Clock</span>
+                <span className="text-[8px] font-mono text-amber-200/60">sun {Math.round(daylightFactor(state.tick) * 100)}%</span>
+              </div>
+              <div className="text-lg font-mono font-bold text-white">{describeClock(state.tick)}</div>
+              {state.events.length > 0 && (
+                <div className="flex flex-wrap gap-1 mt-2">
+                  {state.events.map(e => (
+                    <span key={e.id} className="px-2 py-0.5 rounded bg-rose-500/10 border border-rose-500/20 text-[8px] font-black uppercase tracking-widest text-rose-300/80">
+                      {EVENT_SPECS[e.kind].label}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+            <div className="bg-white/5 px-5 py-4 rounded-2xl border border-white/5 space-y-3">
+              {RESOURCE_KINDS.map(kind => {
+                const r = state.economy.resources[kind];
+                const net = r.produced - r.demanded;
+                return (
+                  <div key={kind}>
+                    <div className="flex justify-between text-[8px] font-black uppercase mb-1">
+                      <span className="text-white/20">{kind}_Grid</span>
+                      <span className={`font-mono ${r.deficit > 0 ? 'text-rose-300' : net < 0 ? 'text-amber-300' : 'text-emerald-300'}`}>
+                        {net >= 0 ? '+' : ''}{net.toFixed(1)}/t · {r.stored.toFixed(0)}/{r.capacity.toFixed(0)}
+                      </span>
+                    </div>
+                    <div className="h-1 bg-white/5 rounded-full overflow-hidden">
+                      <div className={`h-full transition-all duration-700 ${RESOURCE_BAR_COLORS[kind]}`} style={{ width: `${(r.stored / r.capacity) * 100}%` }} />
+                    </div>
+                  </div>
+                );
+              })}
+              {state.economy.offline.length > 0 && (
+                <div className="text-[8px] font-black uppercase text-rose-300/80 tracking-widest">{state.economy.offline.length} structures offline</div>
+              )}
+              {damagedCount > 0 && (
+                <div className="text-[8px] font-black uppercase text-amber-300/80 tracking-widest">{damagedCount} structures need repair</div>
+              )}
+            </div>
+            <div className="flex items-center justify-between bg-white/5 px-5 py-4 rounded-2xl border border-white/5">
+              <div>
+                <div className="text-[8px] font-black text-white/10 uppercase mb-1">Directive_Compliance</div>
+                <div className={`text-2xl font-mono font-bold ${state.progression.complianceScore >= 80 ? 'text-emerald-300' : state.progression.complianceScore >= 50 ? 'text-amber-300' : 'text-rose-300'}`}>{state.progression.complianceScore}%</div>
+              </div>
+              <div className="flex gap-1">
+                {DIRECTIVE_MODES.map(m => (
+                  <button key={m} onClick={() => setDirectiveMode(m)}
+                    className={`px-2 py-0.5 rounded text-[8px] font-black uppercase tracking-widest transition-all ${state.directiveMode === m ? 'bg-sky-500 text-white' : 'text-white/30 hover:text-white hover:bg-white/5'}`}>
+                    {m}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="flex items-center justify-between bg-white/5 px-5 py-4 rounded-2xl border border-white/5">
+              <div>
+                <div className="text-[8px] font-black text-white/10 uppercase mb-1">Builder_Agents</div>
+                <div className="flex gap-1.5 mt-1">
+                  {state.agents.map(a => (
+                    <div key={a.id} title={`${a.id}: ${a.status}`} className={`w-3 h-3 rounded-full border-2 ${a.status === 'building' ? 'border-emerald-400' : a.status === 'moving' ? 'border-amber-400' : 'border-white/20'}`} style={{ backgroundColor: a.color }} />
+                  ))}
+                </div>
+              </div>
+              <div className="flex items-center gap-1">
+                <button onClick={() => changeAgentCount(-1)} disabled={state.agents.length <= 1} className="px-2 py-0.5 rounded text-[10px] font-black text-white/30 hover:text-white hover:bg-white/5 disabled:opacity-20">-</button>
+                <span className="text-xs font-mono font-bold text-sky-100 w-4 text-center">{state.agents.length}</span>
+                <button onClick={() => changeAgentCount(1)} disabled={state.agents.length >= MAX_AGENTS} className="px-2 py-0.5 rounded text-[10px] font-black text-white/30 hover:text-white hover:bg-white/5 disabled:opacity-20">+</button>
+              </div>
+            </div>
+            <div className="bg-white/5 px-5 py-4 rounded-2xl border border-white/5">
+              <div className="flex items-center justify-between mb-2">
+                <div className="text-[8px] font-black text-white/10 uppercase">Blueprint_Library</div>
+                <div className="flex gap-1">
+                  <button onClick={exportBlueprints} disabled={state.blueprints.length === 0} className="px-2 py-0.5 rounded text-[8px] font-black uppercase tracking-widest text-white/30 hover:text-white hover:bg-white/5 disabled:opacity-30">Export</button>
+                  <button onClick={() => blueprintInputRef.current?.click()} className="px-2 py-0.5 rounded text-[8px] font-black uppercase tracking-widest text-white/30 hover:text-white hover:bg-white/5">Import</button>
+                  <input ref={blueprintInputRef} type="file" accept="application/json,.json" className="hidden"
+                    onChange={e => { const file = e.target.files?.[0]; if (file) loadBlueprints(file); e.target.value = ''; }} />
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {blueprintLibrary.map(b => (
+                  <span key={b.name} title={b.steps.map(s => s.label).join(', ')}
+                    className={`px-1.5 py-0.5 rounded text-[8px] font-bold uppercase ${state.blueprints.includes(b) ? 'bg-amber-500/20 text-amber-300' : 'bg-sky-500/20 text-sky-300'}`}>
+                    {b.name} · {b.steps.length}
+                  </span>
+                ))}
+              </div>
+              <div className="flex items-center gap-2 mt-2">
+                <input value={blueprintName} onChange={e => setBlueprintName(e.target.value)} onKeyDown={e => e.key === 'Enter' && saveCluster()} placeholder="cluster name"
+                  className="flex-1 min-w-0 bg-transparent text-xs font-mono font-bold text-sky-100 placeholder:text-white/10 focus:outline-none" />
+                <button onClick={saveCluster} disabled={!blueprintName.trim()} className="text-[8px] font-black uppercase tracking-widest text-white/30 hover:text-white disabled:opacity-30">Save_Cluster</button>
+              </div>
+            </div>
+            <div className="flex items-center gap-2 bg-white/5 px-4 py-3 rounded-2xl border border-white/5">
+              <span className="text-[8px] font-black text-white/20 uppercase">Seed</span>
+              <input value={seedInput} onChange={e => setSeedInput(e.target.value)} onKeyDown={e => e.key === 'Enter' && reseed()}
+                className="flex-1 min-w-0 bg-transparent text-xs font-mono font-bold text-sky-100 focus:outline-none" />
+              <button onClick={reseed} className="text-[8px] font-black uppercase tracking-widest text-white/30 hover:text-white">Reseed</button>
+            </div>
+            <div className="bg-white/5 px-5 py-4 rounded-2xl border border-white/5">
+              <div className="text-[8px] font-black text-white/10 uppercase mb-2">Save_Slots</div>
+              <div className="space-y-1 max-h-[96px] overflow-y-auto custom-scrollbar">
+                {saveSlots.map(s => (
+                  <div key={s.slot} className="flex items-center justify-between gap-2 text-[9px] font-mono">
+                    <span className={`truncate ${s.slot === AUTOSAVE_SLOT ? 'text-amber-200/60' : 'text-sky-100/70'}`} title={`schema v${s.schemaVersion}, saved ${new Date(s.savedAt).toLocaleString()}`}>
+                      {s.slot} · {s.tick !== undefined ? describeClock(s.tick) : 'unreadable'}{s.objectCount !== undefined ? ` · ${s.objectCount} obj` : ''}
+                    </span>
+                    <div className="flex gap-1 shrink-0">
+                      <button onClick={() => loadSlot(s.slot)} className="text-[8px] font-black uppercase tracking-widest text-white/30 hover:text-white">Load</button>
+                      <button onClick={() => removeSlot(s.slot)} className="text-[8px] font-black uppercase tracking-widest text-rose-300/40 hover:text-rose-200">Del</button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <div className="flex items-center gap-2 mt-2">
+                <input value={slotName} onChange={e => setSlotName(e.target.value)} onKeyDown={e => e.key === 'Enter' && saveToSlot()} placeholder="slot name"
+                  className="flex-1 min-w-0 bg-transparent text-xs font-mono font-bold text-sky-100 placeholder:text-white/10 focus:outline-none" />
+                <button onClick={saveToSlot} disabled={!slotName.trim()} className="text-[8px] font-black uppercase tracking-widest text-white/30 hover:text-white disabled:opacity-30">Save</button>
+              </div>
+            </div>
+            <div className="flex items-center justify-between bg-white/5 px-4 py-3 rounded-2xl border border-white/5">
+              <span className="text-[8px] font-black text-white/20 uppercase">World_File</span>
+              <div className="flex gap-1">
+                <button onClick={exportGlb} disabled={state.objects.length === 0} className="px-2 py-0.5 rounded text-[8px] font-black uppercase tracking-widest text-white/30 hover:text-white hover:bg-white/5 disabled:opacity-30">Export_GLB</button>
+                <button onClick={exportWorld} className="px-2 py-0.5 rounded text-[8px] font-black uppercase tracking-widest text-white/30 hover:text-white hover:bg-white/5">Export_World</button>
+                <button onClick={() => worldInputRef.current?.click()} className="px-2 py-0.5 rounded text-[8px] font-black uppercase tracking-widest text-white/30 hover:text-white hover:bg-white/5">Import_World</button>
+                <input ref={worldInputRef} type="file" accept="application/json,.json" className="hidden"
+                  onChange={e => { const file = e.target.files?.[0]; if (file) loadWorld(file); e.target.value = ''; }} />
+              </div>
+            </div>
+            <div className="flex items-center justify-between bg-white/5 px-4 py-3 rounded-2xl border border-white/5">
+              <div>
+                <div className="text-[8px] font-black text-white/20 uppercase">Render_Quality</div>
+                <div className="text-[9px] font-mono text-sky-100/60">{renderStats ? `${renderStats.level} · ${renderStats.fps} fps` : 'measuring...'}</div>
+              </div>
+              <div className="flex gap-1">
+                {QUALITY_MODES.map(m => (
+                  <button key={m} onClick={() => setQualityMode(m)}
+                    className={`px-2 py-0.5 rounded text-[8px] font-black uppercase tracking-widest transition-all ${qualityMode === m ? 'bg-sky-500 text-white' : 'text-white/30 hover:text-white hover:bg-white/5'}`}>
+                    {m}
+                  </button>
+                ))}
+              </div>
+            </div>
           </div>
           <div className="mt-8 pt-6 border-t border-white/5 grid grid-cols-2 gap-2">
             <button onClick={triggerScan} className="px-3 py-2.5 rounded-xl bg-white/5 hover:bg-white/10 text-[9px] font-black uppercase tracking-widest transition-all border border-white/5">Grid_Ping</button>
-            <button className="px-3 py-2.5 rounded-xl bg-rose-500/5 hover:bg-rose-500/15 text-[9px] font-black uppercase tracking-widest transition-all border border-rose-500/10 text-rose-300/60" onClick={() => window.location.reload()}>System_Reset</button>
+            <button className="px-3 py-2.5 rounded-xl bg-rose-500/5 hover:bg-rose-500/15 text-[9px] font-black uppercase tracking-widest transition-all border border-rose-500/10 text-rose-300/60" onClick={systemReset}>System_Reset</button>
           </div>
         </div>
       )}
@@ -330,7 +781,7 @@ function App() {
             <div className="flex gap-1"><div className="w-1 h-1 bg-sky-500 rounded-full shadow-[0_0_5px_#0ea5e9]"/><div className="w-1 h-1 bg-sky-500/20 rounded-full"/></div>
           </div>
           <div ref={logContainerRef} className="flex-1 overflow-y-auto p-8 space-y-3 font-mono text-[10px]">
-            {state.logs.map(log => (
+            {head.logs.map(log => (
               <div key={log.id} className={`flex gap-4 p-3.5 rounded-[18px] border transition-all duration-300 group hover:bg-white/5 ${log.type === 'success' ? 'bg-emerald-500/5 text-emerald-400/80 border-emerald-500/10' : log.type === 'error' ? 'bg-rose-500/5 text-rose-300/80 border-rose-500/10' : log.type === 'thinking' ? 'bg-sky-500/5 text-sky-400/60 italic border-l border-sky-400/20 ml-3' : 'bg-white/5 text-white/30 border-white/5'}`}>
                 <span className="opacity-10 shrink-0 font-black">[{new Date(log.timestamp).toLocaleTimeString([], { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit' })}]</span>
                 <span className="font-bold tracking-tight">{log.message}</span>
@@ -341,14 +792,34 @@ function App() {
       )}
 
       <div className="w-full h-full">
-        <SimulationCanvas objects={state.objects} avatarPos={avatarPos} avatarTarget={null} activePlan={state.activePlan} isScanning={state.isScanning} tier={state.progression.settlementTier} />
+        <SimulationCanvas objects={state.objects} offlineIds={state.economy.offline} agents={state.agents} tick={state.tick} events={state.events} activePlan={state.activePlan} isScanning={head.isScanning} tier={state.progression.settlementTier} qualityMode={qualityMode} onPerformance={updateRenderStats} />
+      </div>
+
+      {/* TIMELINE */}
+      <div className="absolute bottom-32 right-10 z-10 w-[440px] bg-black/80 backdrop-blur-3xl px-5 py-3 rounded-[22px] border border-white/10 shadow-2xl">
+        <div className="flex items-center justify-between gap-3 mb-2">
+          <span className="text-[8px] font-black text-white/20 uppercase tracking-widest shrink-0">Timeline</span>
+          <span className="flex-1 min-w-0 truncate text-[9px] font-mono text-sky-100/60">{timeline.entries[timeline.cursor].label} · {describeClock(state.tick)}</span>
+          <div className="flex gap-1 shrink-0">
+            <button onClick={() => travel(undoPlacement)} disabled={!canUndoPlacement(timeline)} title="Undo the last placement (Ctrl+Z)" className="px-2 py-0.5 rounded text-[8px] font-black uppercase tracking-widest text-white/30 hover:text-white hover:bg-white/5 disabled:opacity-30">Undo</button>
+            <button onClick={() => travel(redoPlacement)} disabled={!canRedoPlacement(timeline)} title="Redo the next placement (Ctrl+Shift+Z)" className="px-2 py-0.5 rounded text-[8px] font-black uppercase tracking-widest text-white/30 hover:text-white hover:bg-white/5 disabled:opacity-30">Redo</button>
+            <button onClick={() => travel(t => seek(t, t.entries.length - 1))} disabled={isAtHead(timeline)} className="px-2 py-0.5 rounded text-[8px] font-black uppercase tracking-widest text-sky-300/60 hover:text-sky-200 hover:bg-white/5 disabled:opacity-30">Live</button>
+          </div>
+        </div>
+        <input type="range" min={0} max={timeline.entries.length - 1} value={timeline.cursor} onChange={e => travel(t => seek(t, Number(e.target.value)))}
+          className="w-full accent-sky-400" />
+        {!isAtHead(timeline) && (
+          <div className="mt-1 text-[8px] font-black uppercase tracking-widest text-amber-300/70">
+            Step {timeline.cursor} of {timeline.entries.length - 1} · Sync_Directive branches from here
+          </div>
+        )}
       </div>
 
       {/* ACTION FOOTER */}
       <div className="absolute bottom-10 right-10 z-10 flex gap-5">
         <div className="bg-black/80 backdrop-blur-3xl p-2 rounded-[22px] border border-white/10 flex shadow-2xl shadow-black">
           <button onClick={() => setIsAuto(true)} className={`px-7 py-3 rounded-[16px] text-[10px] font-black uppercase tracking-widest transition-all duration-300 ${isAuto ? 'bg-sky-500 text-white shadow-lg' : 'text-white/20 hover:text-white'}`}>Auto</button>
-          <button onClick={() => setIsAuto(false)} className={`px-7 py-3 rounded-[16px] text-[10px] font-black uppercase tracking-widest transition-all duration-300 ${!isAuto ? 'bg-white text-slate-900' : 'text-white/20 hover:text-white'}`}>Manual</button>
+          <button onClick={switchToManual} className={`px-7 py-3 rounded-[16px] text-[10px] font-black uppercase tracking-widest transition-all duration-300 ${!isAuto ? 'bg-white text-slate-900' : 'text-white/20 hover:text-white'}`}>Manual</button>
         </div>
         <button onClick={runSimulationStep} disabled={isProcessing} className="group relative px-12 h-16 bg-white hover:bg-sky-50 text-slate-900 rounded-[24px] font-black uppercase italic tracking-tighter transition-all duration-300 shadow-2xl disabled:opacity-50 active:scale-95 flex items-center gap-3">
           <span className="relative z-10">Sync_Directive</span>
@@ -0,0 +1,162 @@
+import { readFileSync, writeFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { DirectiveMode, SimulationState, WorldObjectType } from '../types';
+import { DecisionProvider, createRemoteProvider, uplinkWaitProvider, withFallback } from '../services/aiLogic';
+import { Cassette, createCassette, createRecordingProvider, createReplayProvider, parseCassette, serializeCassette } from '../services/cassette';
+import { DEFAULT_UPLINK_SETTINGS, EndpointConfig } from '../services/endpointSettings';
+import { localPlannerProvider } from '../services/localPlanner';
+import { validateDecision } from '../services/responseValidation';
+import { appendLog, createInitialState, decisionContext, importBlueprints, step } from '../services/simulationEngine';
+import { parseBlueprints } from '../services/blueprints';
+import { parseWorldFile, stateFromWorld } from '../services/worldFile';
+import { parseSeed, randomSeed } from '../services/random';
+import { DIRECTIVE_MODES } from '../services/directives';
+import { MAX_AGENTS } from '../services/scheduler';
+import { PLAN_HISTORY_LIMIT, PLAN_OUTCOMES } from '../services/planGraph';
+import { describeEconomy } from '../services/economy';
+
+const STEP_INTERVAL_MS = 4500;
+
+const USAGE = `Usage: npm run simulate -- [options]
+
+  --steps <n>          decisions to apply (default 20)
+  --seed <seed>        world seed, number or text (default: the cassette's seed, else random)
+  --directives <mode>  soft (log violations) | hard (reject violating placements) (default soft)
+  --agents <n>         builder agents, 1-${MAX_AGENTS} (default 1)
+  --provider <name>    local | remote | hybrid | replay (default local)
+  --endpoint <url>     worker endpoint for remote/hybrid, repeatable (default: built-in workers)
+  --openai <url>       OpenAI-compatible endpoint for remote/hybrid, repeatable
+  --model <name>       model for --openai endpoints (default llama3.1)
+  --blueprints <file>  import user blueprints exported from the app
+  --world <file>       start from a world file exported from the app (its seed and directive mode are used)
+  --cassette <file>    cassette to replay (required for --provider replay)
+  --record <file>      write a cassette of this run
+  --out <file>         write the final SimulationState as JSON
+  --json               print the final SimulationState to stdout instead of a summary
+  --help               show this message
+`;
+
+function buildEndpoints(workers: string[], openai: string[], model: string): EndpointConfig[] {
+  if (workers.length === 0 && openai.length === 0) return DEFAULT_UPLINK_SETTINGS.endpoints;
+  return [
+    ...workers.map((url, i): EndpointConfig => ({ id: `worker-${i}`, label: url, url, kind: 'worker', enabled: true })),
+    ...openai.map((url, i): EndpointConfig => ({ id: `openai-${i}`, label: url, url, kind: 'openai', model, enabled: true }))
+  ];
+}
+
+function buildProvider(name: string, endpoints: EndpointConfig[], cassette?: Cassette): DecisionProvider {
+  switch (name) {
+    case 'local':
+      return localPlannerProvider;
+    case 'remote':
+      return withFallback(createRemoteProvider(endpoints), uplinkWaitProvider);
+    case 'hybrid':
+      return withFallback(createRemoteProvider(endpoints), localPlannerProvider);
+    case 'replay':
+      if (!cassette) throw new Error('--provider replay needs --cassette <file>');
+      return createReplayProvider(cassette);
+    default:
+      throw new Error(`Unknown provider "${name}"`);
+  }
+}
+
+interface RunStats {
+  actions: Record<string, number>;
+  placements: Record<string, number>;
+  repairs: number;
+}
+
+function summarize(state: SimulationState, stats: RunStats): string {
+  const byType = state.objects.reduce<Partial<Record<WorldObjectType, number>>>((acc, o) => ({ ...acc, [o.type]: (acc[o.type] ?? 0) + 1 }), {});
+  return [
+    `Seed:               ${state.seed}`,
+    `Steps applied:      ${state.tick}`,
+    `Actions:            ${Object.entries(stats.actions).map(([a, n]) => `${a}=${n}`).join(' ')}`,
+    `Schema repairs:     ${stats.repairs}`,
+    `Placements:         ${Object.entries(stats.placements).map(([s, n]) => `${s}=${n}`).join(' ') || 'none'}`,
+    `Objects:            ${state.objects.length}`,
+    ...Object.entries(byType).map(([type, n]) => `  ${type.padEnd(18)}${n}`),
+    `Tier:               ${state.progression.settlementTier}`,
+    `Compliance:         ${state.progression.complianceScore}% (${state.directiveMode})`,
+    `Agents:             ${state.agents.map(a => `${a.id} ${a.status}`).join(', ')}`,
+    `Economy:            ${describeEconomy(state.economy)}`,
+    `Goal:               ${state.currentGoal}`,
+    `Knowledge entries:  ${state.knowledgeBase.length}`,
+    `Active plan:        ${state.activePlan ? `${state.activePlan.objective} (${state.activePlan.currentStepIndex + 1}/${state.activePlan.steps.length})` : 'none'}`,
+    `Plan history:       ${PLAN_OUTCOMES.map(o => `${state.planHistory.filter(r => r.outcome === o).length} ${o}`).join(', ')} (last ${PLAN_HISTORY_LIMIT} kept)`
+  ].join('\n');
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      steps: { type: 'string', default: '20' },
+      seed: { type: 'string' },
+      directives: { type: 'string', default: 'soft' },
+      agents: { type: 'string', default: '1' },
+      provider: { type: 'string', default: 'local' },
+      endpoint: { type: 'string', multiple: true, default: [] },
+      openai: { type: 'string', multiple: true, default: [] },
+      model: { type: 'string', default: 'llama3.1' },
+      blueprints: { type: 'string' },
+      world: { type: 'string' },
+      cassette: { type: 'string' },
+      record: { type: 'string' },
+      out: { type: 'string' },
+      json: { type: 'boolean', default: false },
+      help: { type: 'boolean', default: false }
+    }
+  });
+
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return;
+  }
+
+  const steps = Number(values.steps);
+  if (!Number.isInteger(steps) || steps < 0) throw new Error(`--steps must be a non-negative integer, got "${values.steps}"`);
+
+  const directiveMode = values.directives as DirectiveMode;
+  if (!DIRECTIVE_MODES.includes(directiveMode)) throw new Error(`--directives must be soft or hard, got "${values.directives}"`);
+
+  const agentCount = Number(values.agents);
+  if (!Number.isInteger(agentCount) || agentCount < 1 || agentCount > MAX_AGENTS) throw new Error(`--agents must be an integer from 1 to ${MAX_AGENTS}, got "${values.agents}"`);
+
+  const cassette = values.cassette ? parseCassette(readFileSync(values.cassette, 'utf8')) : undefined;
+  const world = values.world ? parseWorldFile(readFileSync(values.world, 'utf8')) : undefined;
+  const seed = world ? world.seed : values.seed !== undefined ? parseSeed(values.seed) : cassette?.seed ?? randomSeed();
+  const endpoints = buildEndpoints(values.endpoint, values.openai, values.model);
+  const recording = values.record ? createCassette(seed) : undefined;
+  let provider = buildProvider(values.provider, endpoints, cassette);
+  if (recording) provider = createRecordingProvider(provider, recording);
+
+  // Simulated clock so timestamps, like everything else, follow from the seed and decisions.
+  let clock = 0;
+  const env = { now: () => clock };
+  let state = world ? stateFromWorld(world, { agentCount }, env) : createInitialState(seed, { directiveMode, agentCount });
+  if (values.blueprints) state = importBlueprints(state, parseBlueprints(readFileSync(values.blueprints, 'utf8')));
+  const stats: RunStats = { actions: {}, placements: {}, repairs: 0 };
+
+  for (let i = 0; i < steps; i++) {
+    const raw = await provider.decide(decisionContext(state));
+    const { value: decision, issues } = validateDecision(raw, state.activePlan);
+    clock += STEP_INTERVAL_MS;
+    issues.forEach(issue => { state = appendLog(state, `SCHEMA_REPAIR: ${issue}`, 'error', env); });
+    stats.repairs += issues.length;
+    stats.actions[decision.action] = (stats.actions[decision.action] ?? 0) + 1;
+    state = step(state, decision, env);
+    if (decision.action === 'PLACE' && state.lastPlacement) {
+      stats.placements[state.lastPlacement.status] = (stats.placements[state.lastPlacement.status] ?? 0) + 1;
+    }
+    if (!values.json) console.error(`[${i + 1}/${steps}] ${decision.action} ${decision.taskLabel}`);
+  }
+
+  if (recording && values.record) writeFileSync(values.record, serializeCassette(recording));
+  if (values.out) writeFileSync(values.out, JSON.stringify(state, null, 2));
+  console.log(values.json ? JSON.stringify(state, null, 2) : summarize(state, stats));
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -1,15 +1,29 @@
 
-import React, { useRef, useMemo } from 'react';
+import React, { useRef, useMemo, useEffect } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
+import { AgentStatus } from '../types';
 
 interface AvatarProps {
   position: [number, number, number];
   targetPosition: [number, number, number] | null;
+  // Waypoints passed during the last tick, ending at `position`.
+  trail?: [number, number, number][];
   isThinking?: boolean;
+  color?: string;
+  status?: AgentStatus;
 }
 
-export const Avatar: React.FC<AvatarProps> = ({ position, targetPosition, isThinking }) => {
+const STATUS_RING_COLORS: Record<AgentStatus, string> = {
+  idle: '#64748b',
+  moving: '#f59e0b',
+  building: '#10b981'
+};
+
+// Visual walking speed in metres per second while replaying a tick's trail.
+const WALK_SPEED = 6;
+
+export const Avatar: React.FC<AvatarProps> = ({ position, targetPosition, trail, isThinking, color = '#38bdf8', status }) => {
   const meshRef = useRef<THREE.Group>(null);
   const ringRef = useRef<THREE.Mesh>(null);
   const scannerRef = useRef<THREE.Mesh>(null);
@@ -18,21 +32,41 @@ export const Avatar: React.FC<AvatarProps> = ({ position, targetPosition, isThin
   // Use refs to store the current visual position for smooth lerping
   const currentPos = useRef(new THREE.Vector3(...position));
   const targetVec = useMemo(() => new THREE.Vector3(...position), [position]);
+  // Walk through the trail's corners instead of cutting straight across structures.
+  const waypoints = useRef<THREE.Vector3[]>([]);
+
+  useEffect(() => {
+    waypoints.current = (trail ?? []).map(p => new THREE.Vector3(...p));
+  }, [trail]);
 
   useFrame((state, delta) => {
     if (meshRef.current) {
       // Update target vector from prop
       targetVec.set(...position);
       
-      // Smoothly interpolate current visual position towards the target position
-      currentPos.current.lerp(targetVec, 0.1);
+      const waypoint = waypoints.current[0];
+      if (waypoint) {
+        // Walk towards the next trail point at a steady pace
+        const gap = waypoint.clone().sub(currentPos.current);
+        const stepLength = WALK_SPEED * delta;
+        if (gap.length() <= stepLength) {
+          currentPos.current.copy(waypoint);
+          waypoints.current.shift();
+        } else {
+          currentPos.current.add(gap.setLength(stepLength));
+        }
+      } else {
+        // Smoothly interpolate current visual position towards the target position
+        currentPos.current.lerp(targetVec, 0.1);
+      }
       meshRef.current.position.copy(currentPos.current);
       
       // Hover effect on the visual Y
       meshRef.current.position.y += Math.sin(state.clock.elapsedTime * 2.5) * 0.12;
       
-      if (targetPosition) {
-        const lookTarget = new THREE.Vector3(...targetPosition);
+      const facing = waypoints.current[0] ?? (targetPosition && new THREE.Vector3(...targetPosition));
+      if (facing) {
+        const lookTarget = facing.clone().setY(meshRef.current.position.y);
         const direction = new THREE.Vector3().subVectors(lookTarget, meshRef.current.position).normalize();
         const targetRotation = new THREE.Quaternion().setFromUnitVectors(new THREE.Vector3(0, 0, 1), direction);
         meshRef.current.quaternion.slerp(targetRotation, 0.1);
@@ -68,11 +102,11 @@ export const Avatar: React.FC<AvatarProps> = ({ position, targetPosition, isThin
       <mesh position={[0, 0.9, 0]}>
         <sphereGeometry args={[0.18, 20, 20]} />
         <meshStandardMaterial 
-          color={isThinking ? "#f43f5e" : "#38bdf8"} 
-          emissive={isThinking ? "#f43f5e" : "#38bdf8"} 
+          color={isThinking ? "#f43f5e" : color} 
+          emissive={isThinking ? "#f43f5e" : color} 
           emissiveIntensity={isThinking ? 5 : 2} 
         />
-        <pointLight ref={lightRef} color={isThinking ? "#f43f5e" : "#38bdf8"} distance={5} />
+        <pointLight ref={lightRef} color={isThinking ? "#f43f5e" : color} distance={5} />
       </mesh>
 
       {/* Holographic Scanner Beam */}
@@ -85,8 +119,8 @@ export const Avatar: React.FC<AvatarProps> = ({ position, targetPosition, isThin
       <mesh ref={ringRef} position={[0, 0.1, 0]} rotation={[Math.PI / 2, 0, 0]}>
         <torusGeometry args={[0.6, 0.015, 12, 48]} />
         <meshStandardMaterial 
-          color={isThinking ? "#fb7185" : "#0ea5e9"} 
-          emissive={isThinking ? "#fb7185" : "#0ea5e9"} 
+          color={isThinking ? "#fb7185" : status ? STATUS_RING_COLORS[status] : "#0ea5e9"} 
+          emissive={isThinking ? "#fb7185" : status ? STATUS_RING_COLORS[status] : "#0ea5e9"} 
           transparent 
           opacity={0.6} 
         />
@@ -1,6 +1,7 @@
 
 import React, { useMemo, useEffect, useState, useRef } from 'react';
 import { KnowledgeEntry, KnowledgeCategory } from '../types';
+import { hashUnit } from '../services/random';
 
 interface Node {
   id: string;
@@ -38,8 +39,8 @@ export const KnowledgeGraph: React.FC<{ entries: KnowledgeEntry[], width?: numbe
       if (existing) return { ...existing, category: entry.category };
       return {
         id: entry.id,
-        x: width / 2 + (Math.random() - 0.5) * 80,
-        y: height / 2 + (Math.random() - 0.5) * 80,
+        x: width / 2 + (hashUnit(`${entry.id}:x`) - 0.5) * 80,
+        y: height / 2 + (hashUnit(`${entry.id}:y`) - 0.5) * 80,
         vx: 0,
         vy: 0,
         title: entry.title,
@@ -0,0 +1,147 @@
+import React, { useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { WorldObject } from '../types';
+import { ASSET_MODELS, LEVEL_BANDS, ModelPart, isDark, partColor, partMatrix, placementMatrix, structureMatrix } from '../services/assetModels';
+import { levelOf } from '../services/maintenance';
+import { QualitySettings } from '../services/renderQuality';
+
+// Seconds between camera distance checks that reassign detail levels and lights.
+const LOD_INTERVAL = 0.5;
+
+interface Batch {
+  key: string;
+  part: ModelPart;
+  dark: boolean;
+  // Level bands are drawn upright; every other part leans and grows with its structure.
+  upright: boolean;
+  objects: WorldObject[];
+}
+
+interface LodView {
+  far: Set<string>;
+  // Structures whose light is on, nearest first.
+  lit: string[];
+}
+
+const materials = new Map<string, THREE.Material>();
+
+// One material per look, shared by every batch; per-instance colours carry the tint.
+function sharedMaterial(part: ModelPart, dark: boolean): THREE.Material {
+  const glow = part.emissive && !dark ? part.glow ?? 0.4 : 0;
+  const key = part.wireframe ? `wire:${part.color}` : `${part.metalness ?? 0.5}:${part.roughness ?? 0.2}:${part.emissive}:${glow}`;
+  let material = materials.get(key);
+  if (!material) {
+    material = part.wireframe
+      ? new THREE.MeshStandardMaterial({ color: part.color, wireframe: true, transparent: true, opacity: 0.1 })
+      : new THREE.MeshStandardMaterial({ color: '#ffffff', metalness: part.metalness ?? 0.5, roughness: part.roughness ?? 0.2, emissive: part.emissive ?? '#000000', emissiveIntensity: glow });
+    materials.set(key, material);
+  }
+  return material;
+}
+
+function buildBatches(objects: WorldObject[], offline: Set<string>, far: Set<string>): Batch[] {
+  const batches = new Map<string, Batch>();
+  const add = (key: string, part: ModelPart, dark: boolean, upright: boolean, o: WorldObject) => {
+    const batch = batches.get(key) ?? { key, part, dark, upright, objects: [] };
+    batch.objects.push(o);
+    batches.set(key, batch);
+  };
+  objects.forEach(o => {
+    const dark = isDark(o, offline);
+    const detail = far.has(o.id) ? 'low' : 'full';
+    const model = ASSET_MODELS[o.type];
+    (detail === 'low' ? model.lowDetail : model.parts).forEach((part, idx) => add(`${o.type}:${detail}:${idx}:${dark}`, part, dark, false, o));
+    if (detail === 'full') LEVEL_BANDS.slice(0, levelOf(o) - 1).forEach((band, idx) => add(`band:${idx}:${dark}`, band, dark, true, o));
+  });
+  return [...batches.values()];
+}
+
+function viewFrom(objects: WorldObject[], offline: Set<string>, camera: THREE.Vector3, quality: QualitySettings): LodView {
+  const far = new Set<string>();
+  const lights: { id: string; distance: number }[] = [];
+  objects.forEach(o => {
+    const distance = Math.hypot(o.position[0] - camera.x, o.position[1] - camera.y, o.position[2] - camera.z);
+    if (distance > quality.lodDistance) far.add(o.id);
+    else if (ASSET_MODELS[o.type].light && !isDark(o, offline)) lights.push({ id: o.id, distance });
+  });
+  const lit = lights.sort((a, b) => a.distance - b.distance).slice(0, quality.maxStructureLights).map(l => l.id);
+  return { far, lit };
+}
+
+const sameView = (a: LodView, b: LodView) =>
+  a.far.size === b.far.size && [...a.far].every(id => b.far.has(id)) && a.lit.join() === b.lit.join();
+
+const PartBatch: React.FC<{ batch: Batch; offline: Set<string>; shadows: boolean }> = ({ batch, offline, shadows }) => {
+  const meshRef = useRef<THREE.InstancedMesh>(null);
+
+  useLayoutEffect(() => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    const matrix = new THREE.Matrix4();
+    const color = new THREE.Color();
+    const local = partMatrix(batch.part);
+    batch.objects.forEach((o, idx) => {
+      (batch.upright ? placementMatrix(o, matrix) : structureMatrix(o, matrix)).multiply(local);
+      mesh.setMatrixAt(idx, matrix);
+      if (!batch.part.wireframe) mesh.setColorAt(idx, partColor(batch.part, o, offline.has(o.id), color));
+    });
+    mesh.instanceMatrix.needsUpdate = true;
+    if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+    mesh.computeBoundingSphere();
+  }, [batch, offline]);
+
+  return (
+    <instancedMesh
+      ref={meshRef}
+      args={[batch.part.geometry, sharedMaterial(batch.part, batch.dark), batch.objects.length]}
+      castShadow={shadows && !batch.part.wireframe}
+      receiveShadow
+    />
+  );
+};
+
+/**
+ * Draws every finished structure with one InstancedMesh per model part,
+ * swapping to low-detail models past the quality's LOD distance. A single
+ * frame loop drives the hover of all powered structures and the LOD check.
+ */
+export const SettlementInstances: React.FC<{ objects: WorldObject[]; offline: Set<string>; quality: QualitySettings }> = ({ objects, offline, quality }) => {
+  const hoverRef = useRef<THREE.Group>(null);
+  const lastCheck = useRef(-Infinity);
+  const [view, setView] = useState<LodView>({ far: new Set(), lit: [] });
+
+  const finished = useMemo(() => objects.filter(o => o.buildProgress === undefined), [objects]);
+  const batches = useMemo(() => buildBatches(finished, offline, view.far), [finished, offline, view.far]);
+
+  useFrame(({ clock, camera }) => {
+    // Subtle hovering for futuristic feel
+    if (hoverRef.current) hoverRef.current.position.y = Math.sin(clock.elapsedTime * 0.5) * 0.05;
+    if (clock.elapsedTime - lastCheck.current < LOD_INTERVAL) return;
+    lastCheck.current = clock.elapsedTime;
+    const next = viewFrom(finished, offline, camera.position, quality);
+    setView(prev => sameView(prev, next) ? prev : next);
+  });
+
+  // A fixed number of lights per quality level: changing the count would recompile every material.
+  const lights = useMemo(() => {
+    const byId = new Map(finished.map(o => [o.id, o]));
+    return Array.from({ length: quality.maxStructureLights }, (_, idx) => {
+      const o = byId.get(view.lit[idx] ?? '');
+      const light = o && ASSET_MODELS[o.type].light;
+      if (!o || !light) return { key: idx, position: [0, -100, 0] as [number, number, number], color: '#000000', intensity: 0, distance: 1 };
+      const position = new THREE.Vector3(...light.position).applyMatrix4(structureMatrix(o)).toArray() as [number, number, number];
+      return { key: idx, position, color: light.color, intensity: light.intensity, distance: light.distance };
+    });
+  }, [finished, view.lit, quality.maxStructureLights]);
+
+  return (
+    <>
+      <group ref={hoverRef}>
+        {batches.filter(b => !b.dark).map(b => <PartBatch key={b.key} batch={b} offline={offline} shadows={quality.shadows} />)}
+        {lights.map(({ key, ...light }) => <pointLight key={key} {...light} />)}
+      </group>
+      {batches.filter(b => b.dark).map(b => <PartBatch key={b.key} batch={b} offline={offline} shadows={quality.shadows} />)}
+    </>
+  );
+};
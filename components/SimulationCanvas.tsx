@@ -1,37 +1,103 @@
 
-import React, { useMemo, useRef } from 'react';
+import React, { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
 import { Canvas, useFrame } from '@react-three/fiber';
-import { OrbitControls, Sky, Stars, ContactShadows, Environment, MeshDistortMaterial } from '@react-three/drei';
+import { OrbitControls, Sky, Stars, ContactShadows, Environment, MeshDistortMaterial, Line } from '@react-three/drei';
 import * as THREE from 'three';
-import { WorldObject, ConstructionPlan, SettlementTier } from '../types';
+import { WorldObject, ConstructionPlan, SettlementTier, BuilderAgent, EnvironmentEvent } from '../types';
 import { WorldAsset } from './WorldAssets';
+import { SettlementInstances } from './SettlementInstances';
 import { Avatar } from './Avatar';
+import { getTerrainHeight, TERRAIN_SIZE } from '../services/terrain';
+import { sunElevation, sunPosition } from '../services/environment';
+import { QUALITY_SETTINGS, QualityLevel, QualityMode, QualitySettings, adaptQuality, initialAdaptiveQuality } from '../services/renderQuality';
 
 interface SimulationCanvasProps {
   objects: WorldObject[];
-  avatarPos: [number, number, number];
-  avatarTarget: [number, number, number] | null;
+  offlineIds?: string[];
+  agents: BuilderAgent[];
+  tick: number;
+  events?: EnvironmentEvent[];
   activePlan?: ConstructionPlan;
   isScanning?: boolean;
   tier: SettlementTier;
+  qualityMode?: QualityMode;
+  // Called with each frame rate sample and the quality level in use.
+  onPerformance?: (fps: number, level: QualityLevel) => void;
 }
 
-const ThermalAura: React.FC<{ position: [number, number, number] }> = ({ position }) => {
-  const meshRef = useRef<THREE.Mesh>(null);
+const AURA_GEOMETRY = new THREE.CircleGeometry(1, 64).rotateX(-Math.PI / 2);
+const AURA_RADIUS = 5;
+
+// Every thermal aura in one InstancedMesh; quality decides whether they pulse, hold still or are hidden.
+const ThermalAuras: React.FC<{ sources: WorldObject[]; mode: QualitySettings['auras'] }> = ({ sources, mode }) => {
+  const meshRef = useRef<THREE.InstancedMesh>(null);
+  const material = useMemo(() => new THREE.MeshBasicMaterial({ color: '#fbbf24', transparent: true, opacity: 0.05, side: THREE.DoubleSide, depthWrite: false }), []);
+
+  useEffect(() => () => material.dispose(), [material]);
+
+  const place = useCallback((radius: number) => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    const matrix = new THREE.Matrix4();
+    sources.forEach((o, idx) => {
+      mesh.setMatrixAt(idx, matrix.makeScale(radius, radius, radius).setPosition(o.position[0], o.position[1] + 0.1, o.position[2]));
+    });
+    mesh.instanceMatrix.needsUpdate = true;
+    mesh.computeBoundingSphere();
+  }, [sources]);
+
+  useLayoutEffect(() => {
+    place(AURA_RADIUS);
+    material.opacity = 0.05;
+  }, [place, material, mode]);
+
   useFrame(({ clock }) => {
-    if (meshRef.current) {
-      meshRef.current.scale.setScalar(5 + Math.sin(clock.elapsedTime * 2) * 0.2);
-      const mat = meshRef.current.material as THREE.MeshBasicMaterial;
-      mat.opacity = 0.05 + Math.sin(clock.elapsedTime) * 0.02;
-    }
+    if (mode !== 'animated') return;
+    place(AURA_RADIUS + Math.sin(clock.elapsedTime * 2) * 0.2);
+    material.opacity = 0.05 + Math.sin(clock.elapsedTime) * 0.02;
   });
 
-  return (
-    <mesh ref={meshRef} position={[position[0], position[1] + 0.1, position[2]]} rotation={[-Math.PI / 2, 0, 0]}>
-      <circleGeometry args={[1, 64]} />
-      <meshBasicMaterial color="#fbbf24" transparent opacity={0.05} side={THREE.DoubleSide} />
-    </mesh>
-  );
+  if (mode === 'off' || sources.length === 0) return null;
+  return <instancedMesh ref={meshRef} args={[AURA_GEOMETRY, material, sources.length]} />;
+};
+
+const FRAME_SAMPLE_SECONDS = 2;
+
+// Reports the measured frame rate every couple of seconds.
+const FrameRateMonitor: React.FC<{ onSample: (fps: number) => void }> = ({ onSample }) => {
+  const frames = useRef(0);
+  const since = useRef<number | null>(null);
+  useFrame(({ clock }) => {
+    if (since.current === null) since.current = clock.elapsedTime;
+    frames.current++;
+    const elapsed = clock.elapsedTime - since.current;
+    if (elapsed < FRAME_SAMPLE_SECONDS) return;
+    // A long gap means the tab was hidden, not that rendering was slow.
+    if (elapsed < FRAME_SAMPLE_SECONDS * 2) onSample(frames.current / elapsed);
+    since.current = clock.elapsedTime;
+    frames.current = 0;
+  });
+  return null;
+};
+
+// Shakes the world briefly when a new tremor fires.
+const TremorShake: React.FC<{ tremor?: EnvironmentEvent; children: React.ReactNode }> = ({ tremor, children }) => {
+  const groupRef = useRef<THREE.Group>(null);
+  const startedAt = useRef<number | null>(null);
+
+  useEffect(() => {
+    startedAt.current = null;
+  }, [tremor?.id]);
+
+  useFrame(({ clock }) => {
+    if (!groupRef.current) return;
+    if (tremor && startedAt.current === null) startedAt.current = clock.elapsedTime;
+    const t = startedAt.current === null ? Infinity : clock.elapsedTime - startedAt.current;
+    const amplitude = tremor && t < 1.5 ? 0.3 * tremor.intensity * (1 - t / 1.5) : 0;
+    groupRef.current.position.set(Math.sin(t * 61) * amplitude, 0, Math.cos(t * 47) * amplitude);
+  });
+
+  return <group ref={groupRef}>{children}</group>;
 };
 
 const Terrain: React.FC<{ isScanning?: boolean, scanOrigin: [number, number, number], tier: SettlementTier }> = ({ isScanning, scanOrigin, tier }) => {
@@ -45,13 +111,12 @@ const Terrain: React.FC<{ isScanning?: boolean, scanOrigin: [number, number, num
   }, [tier]);
 
   const geom = useMemo(() => {
-    const g = new THREE.PlaneGeometry(120, 120, 80, 80);
+    const g = new THREE.PlaneGeometry(TERRAIN_SIZE, TERRAIN_SIZE, 80, 80);
     const pos = g.attributes.position;
     for (let i = 0; i < pos.count; i++) {
       const x = pos.getX(i);
       const z = pos.getY(i);
-      const h = Math.sin(x * 0.2) * Math.cos(z * 0.2) * 1.2;
-      pos.setZ(i, h);
+      pos.setZ(i, getTerrainHeight(x, z));
     }
     g.computeVertexNormals();
     return g;
@@ -77,7 +142,7 @@ const Terrain: React.FC<{ isScanning?: boolean, scanOrigin: [number, number, num
       </mesh>
       {/* Neural Lattice Overlay */}
       <mesh position={[0, -0.01, 0]} rotation={[-Math.PI / 2, 0, 0]}>
-        <planeGeometry args={[120, 120, 40, 40]} />
+        <planeGeometry args={[TERRAIN_SIZE, TERRAIN_SIZE, 40, 40]} />
         <meshBasicMaterial color={latticeColor} wireframe transparent opacity={0.15} />
       </mesh>
       {/* Scan Pulse */}
@@ -89,61 +154,99 @@ const Terrain: React.FC<{ isScanning?: boolean, scanOrigin: [number, number, num
   );
 };
 
-const SimulationCanvas: React.FC<SimulationCanvasProps> = ({ objects, avatarPos, avatarTarget, activePlan, isScanning, tier }) => {
+const SimulationCanvas: React.FC<SimulationCanvasProps> = ({ objects, offlineIds = [], agents, tick, events = [], activePlan, isScanning, tier, qualityMode = 'auto', onPerformance }) => {
+  const sun = useMemo(() => sunPosition(tick), [tick]);
+  const daylight = Math.max(0, sunElevation(tick));
+  const storm = events.find(e => e.kind === 'dust_storm');
+  const tremor = events.find(e => e.kind === 'seismic_tremor' && e.startedTick === tick);
+
   const ghostObjects = useMemo(() => {
     if (!activePlan) return [];
-    return activePlan.steps.slice(activePlan.currentStepIndex + 1);
+    return activePlan.steps.filter((s, idx) => idx !== activePlan.currentStepIndex && !s.objectId && (s.status === 'pending' || s.status === 'active'));
   }, [activePlan]);
 
+  const offline = useMemo(() => new Set(offlineIds), [offlineIds]);
+
+  const [adaptive, setAdaptive] = useState(initialAdaptiveQuality);
+  const [fps, setFps] = useState(0);
+  const level = qualityMode === 'auto' ? adaptive.level : qualityMode;
+  const quality = QUALITY_SETTINGS[level];
+
+  const sampleFrameRate = useCallback((sample: number) => {
+    setFps(Math.round(sample));
+    if (qualityMode === 'auto') setAdaptive(a => adaptQuality(a, sample));
+  }, [qualityMode]);
+
+  useEffect(() => {
+    if (fps > 0) onPerformance?.(fps, level);
+  }, [fps, level, onPerformance]);
+
   const energySources = useMemo(() => 
-    objects.filter(o => o.type === 'solar_panel' || o.type === 'water_collector' || o.type === 'life_support_hub'), 
+    objects.filter(o => o.buildProgress === undefined).filter(o => o.type === 'solar_panel' || o.type === 'water_collector' || o.type === 'life_support_hub'), 
   [objects]);
 
   return (
     <div className="w-full h-full bg-black">
-      <Canvas camera={{ position: [25, 25, 25], fov: 35 }} shadows>
+      <Canvas camera={{ position: [25, 25, 25], fov: 35 }} shadows={quality.shadows}>
+        <FrameRateMonitor onSample={sampleFrameRate} />
         <color attach="background" args={['#010409']} />
         
-        <ambientLight intensity={0.2} />
-        <pointLight position={[20, 30, 20]} intensity={3} color="#00f2ff" castShadow />
+        <ambientLight intensity={0.15 + daylight * 0.35} />
+        <directionalLight position={sun} intensity={daylight * 2.5} color="#fde68a" />
+        <pointLight position={[20, 30, 20]} intensity={3 - daylight * 1.5} color="#00f2ff" castShadow />
         <spotLight position={[0, 50, 0]} intensity={1.5} angle={0.4} penumbra={1} color="#38bdf8" />
         
-        <Sky sunPosition={[100, 10, 100]} turbidity={0.1} rayleigh={1} />
-        <Stars radius={150} depth={50} count={10000} factor={6} saturation={0} fade speed={1} />
+        <Sky sunPosition={sun} turbidity={storm ? 10 * storm.intensity : 0.1} rayleigh={storm ? 3 : 1} />
+        {daylight < 0.2 && <Stars radius={150} depth={50} count={quality.starCount} factor={6} saturation={0} fade speed={1} />}
+        {storm && <fog attach="fog" args={['#78350f', 10, 140 - storm.intensity * 100]} />}
         <Environment preset="night" />
 
-        <Terrain isScanning={isScanning} scanOrigin={avatarPos} tier={tier} />
+        <TremorShake tremor={tremor}>
+          <Terrain isScanning={isScanning} scanOrigin={agents[0].position} tier={tier} />
         
-        {/* Thermal Aura Viz (Directive #4) */}
-        {energySources.map(o => (
-          <ThermalAura key={`aura-${o.id}`} position={o.position} />
-        ))}
-
-        {/* Settlement Assets */}
-        {objects.map((obj) => (
-          <WorldAsset 
-            key={obj.id} 
-            type={obj.type} 
-            position={obj.position} 
-            rotation={obj.rotation} 
-            scale={obj.scale} 
-            variant="real"
-          />
-        ))}
-
-        {/* Predictive Visualization */}
-        {ghostObjects.map((step, idx) => (
-          <WorldAsset 
-            key={`ghost-${idx}`} 
-            type={step.type} 
-            position={[step.position[0], step.position[1], step.position[2]]} 
-            variant="ghost"
-          />
-        ))}
-
-        <Avatar position={avatarPos} targetPosition={avatarTarget} isThinking={isScanning} />
-
-        <ContactShadows opacity={0.5} scale={60} blur={2} far={20} color="#000000" />
+          {/* Thermal Aura Viz (Directive #4) */}
+          <ThermalAuras sources={energySources} mode={quality.auras} />
+
+          {/* Settlement Assets */}
+          <SettlementInstances objects={objects} offline={offline} quality={quality} />
+          {objects.filter(obj => obj.buildProgress !== undefined).map(obj => (
+            <React.Fragment key={obj.id}>
+              <WorldAsset type={obj.type} position={obj.position} rotation={obj.rotation} scale={obj.scale} variant="ghost" />
+              <WorldAsset type={obj.type} position={obj.position} rotation={obj.rotation} scale={obj.scale} variant="construction" progress={obj.buildProgress} />
+            </React.Fragment>
+          ))}
+
+          {/* Predictive Visualization */}
+          {ghostObjects.map((step, idx) => (
+            <WorldAsset 
+              key={`ghost-${idx}`} 
+              type={step.type} 
+              position={[step.position[0], step.position[1], step.position[2]]} 
+              variant="ghost"
+            />
+          ))}
+
+          {/* Planned Routes */}
+          {agents.filter(a => a.path?.length).map(agent => (
+            <Line
+              key={`path-${agent.id}`}
+              points={[agent.position, ...agent.path!].map(p => [p[0], p[1] + 0.15, p[2]] as [number, number, number])}
+              color={agent.color}
+              lineWidth={2}
+              dashed
+              dashSize={0.6}
+              gapSize={0.3}
+              transparent
+              opacity={0.7}
+            />
+          ))}
+
+          {agents.map((agent, idx) => (
+            <Avatar key={agent.id} position={agent.position} trail={agent.trail} targetPosition={agent.path?.[0] ?? null} color={agent.color} status={agent.status} isThinking={idx === 0 && isScanning} />
+          ))}
+        </TremorShake>
+
+        {quality.contactShadows && <ContactShadows opacity={0.5} scale={60} blur={2} far={20} color="#000000" />}
         <OrbitControls makeDefault minPolarAngle={0} maxPolarAngle={Math.PI / 2.05} enableDamping dampingFactor={0.05} />
       </Canvas>
     </div>
@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { CHARS_PER_TOKEN } from '../services/promptContext';
+import { EndpointConfig, EndpointKind, UplinkSettings, ENDPOINT_TEMPLATES, moveEndpoint, validateEndpointUrl } from '../services/endpointSettings';
+
+interface UplinkSettingsPanelProps {
+  settings: UplinkSettings;
+  onSave: (settings: UplinkSettings) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-[10px] font-mono text-sky-100 focus:outline-none focus:border-sky-500/50';
+
+export const UplinkSettingsPanel: React.FC<UplinkSettingsPanelProps> = ({ settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<UplinkSettings>(settings);
+
+  const updateEndpoint = (index: number, patch: Partial<EndpointConfig>) => {
+    setDraft(d => ({ ...d, endpoints: d.endpoints.map((e, i) => i === index ? { ...e, ...patch } : e) }));
+  };
+
+  const addEndpoint = (kind: EndpointKind) => {
+    setDraft(d => ({ ...d, endpoints: [...d.endpoints, { ...ENDPOINT_TEMPLATES[kind], id: `ep-${Date.now().toString(36)}` }] }));
+  };
+
+  const errors = draft.endpoints.map(e => validateEndpointUrl(e.url));
+  const hasErrors = errors.some(Boolean) || !(draft.timeoutMs > 0) || !(draft.promptBudgetChars > 0);
+
+  return (
+    <div className="w-[460px] p-6 bg-black/85 backdrop-blur-[50px] border border-white/10 rounded-[30px] shadow-2xl">
+      <div className="flex justify-between items-center mb-5">
+        <span className="text-[10px] font-black uppercase text-white/40 tracking-[0.3em]">Uplink Routing</span>
+        <button onClick={onClose} className="text-[9px] font-black uppercase text-white/30 hover:text-white">Close</button>
+      </div>
+      <div className="space-y-3 max-h-[45vh] overflow-y-auto custom-scrollbar pr-1">
+        {draft.endpoints.map((e, idx) => (
+          <div key={e.id} className={`p-3 rounded-2xl border ${e.enabled ? 'border-white/10 bg-white/5' : 'border-white/5 opacity-50'}`}>
+            <div className="flex items-center gap-2 mb-2">
+              <span className="text-[9px] font-mono text-sky-400/50">#{idx + 1}</span>
+              <input className={inputClass} value={e.label} onChange={ev => updateEndpoint(idx, { label: ev.target.value })} placeholder="label" />
+              <select className={inputClass + ' w-28'} value={e.kind} onChange={ev => updateEndpoint(idx, { kind: ev.target.value as EndpointKind })}>
+                <option value="worker">worker</option>
+                <option value="openai">openai</option>
+              </select>
+              <input type="checkbox" checked={e.enabled} onChange={ev => updateEndpoint(idx, { enabled: ev.target.checked })} title="Enabled" />
+            </div>
+            <input className={inputClass} value={e.url} onChange={ev => updateEndpoint(idx, { url: ev.target.value })} placeholder="https://..." />
+            {errors[idx] && <div className="text-[9px] text-rose-400 mt-1">{errors[idx]}</div>}
+            {e.kind === 'openai' && (
+              <div className="flex gap-2 mt-2">
+                <input className={inputClass} value={e.model ?? ''} onChange={ev => updateEndpoint(idx, { model: ev.target.value })} placeholder="model" />
+                <input className={inputClass} type="password" value={e.apiKey ?? ''} onChange={ev => updateEndpoint(idx, { apiKey: ev.target.value || undefined })} placeholder="api key (optional)" />
+              </div>
+            )}
+            <div className="flex gap-2 mt-2 justify-end text-[9px] font-black uppercase">
+              <button onClick={() => setDraft(d => ({ ...d, endpoints: moveEndpoint(d.endpoints, idx, -1) }))} className="text-white/30 hover:text-white">Up</button>
+              <button onClick={() => setDraft(d => ({ ...d, endpoints: moveEndpoint(d.endpoints, idx, 1) }))} className="text-white/30 hover:text-white">Down</button>
+              <button onClick={() => setDraft(d => ({ ...d, endpoints: d.endpoints.filter((_, i) => i !== idx) }))} className="text-rose-300/50 hover:text-rose-300">Remove</button>
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center gap-2 mt-4">
+        <button onClick={() => addEndpoint('worker')} className="px-3 py-2 rounded-xl bg-white/5 hover:bg-white/10 text-[9px] font-black uppercase tracking-widest border border-white/5">+ Worker</button>
+        <button onClick={() => addEndpoint('openai')} className="px-3 py-2 rounded-xl bg-white/5 hover:bg-white/10 text-[9px] font-black uppercase tracking-widest border border-white/5">+ Local LLM</button>
+        <label className="ml-auto flex items-center gap-2 text-[9px] font-black uppercase text-white/30">
+          Timeout_MS
+          <input className={inputClass + ' w-20'} type="number" min={500} step={500} value={draft.timeoutMs} onChange={ev => setDraft(d => ({ ...d, timeoutMs: Number(ev.target.value) }))} />
+        </label>
+      </div>
+      <label className="flex items-center justify-end gap-2 mt-2 text-[9px] font-black uppercase text-white/30">
+        Context_Budget (chars, ~{Math.ceil((draft.promptBudgetChars || 0) / CHARS_PER_TOKEN)} tokens)
+        <input className={inputClass + ' w-20'} type="number" min={200} step={100} value={draft.promptBudgetChars} onChange={ev => setDraft(d => ({ ...d, promptBudgetChars: Number(ev.target.value) }))} />
+      </label>
+      <button disabled={hasErrors} onClick={() => onSave(draft)} className="mt-4 w-full py-2.5 rounded-xl bg-sky-500 text-white text-[10px] font-black uppercase tracking-widest disabled:opacity-30">Apply Routing</button>
+    </div>
+  );
+};
@@ -1,15 +1,26 @@
-
-import { WorldObject, LogEntry, WorldObjectType, GroundingLink, ConstructionPlan, KnowledgeEntry, KnowledgeCategory, ProgressionStats } from "../types";
-
-const API_ENDPOINTS = [
-  "https://apiland.yusufsamodin67.workers.dev",
-  "https://holy-base-3924.yusufsamodin67.workers.dev"
-];
+import { WorldObject, LogEntry, WorldObjectType, GroundingLink, ConstructionPlan, KnowledgeEntry, KnowledgeCategory, ProgressionStats, PlacementOutcome, DirectiveMode, EconomyState, BuilderAgent, EnvironmentEvent, MaintenanceAction, Blueprint, PlanRecord } from "../types";
+import { HealthTracker, createHealthTracker, backoffDelay, sleep, withRequestTimeout } from "./endpointHealth";
+import { EndpointConfig } from "./endpointSettings";
+import { requestChatCompletion } from "./openAICompat";
+import { STREAM_ACCEPT, readStreamedDecision } from "./decisionStream";
+import { PromptContextOptions, buildPromptContext } from "./promptContext";
+import { describePlacement } from "./occupancy";
+import { describeEconomy } from "./economy";
+import { BUILD_RANGE, isOnSite, isUnderConstruction } from "./construction";
+import { AGENT_SPEED, travelTicks } from "./navigation";
+import { daylightFactor, describeClock, describeEvent } from "./environment";
+import { MAX_LEVEL, REPAIR_PER_TICK, conditionOf, healthOf } from "./maintenance";
+import { describeNextMilestones } from "./progression";
+import { availableBlueprints, describeBlueprint } from "./blueprints";
 
 export interface AIActionResponse {
-  action: 'PLACE' | 'MOVE' | 'WAIT';
+  action: 'PLACE' | 'MOVE' | 'WAIT' | MaintenanceAction;
   objectType?: WorldObjectType;
   position?: [number, number, number];
+  // Structure a REMOVE, REPAIR or UPGRADE acts on.
+  targetId?: string;
+  // With PLACE, lays out this blueprint anchored at `position` and starts its first step.
+  blueprint?: string;
   reason: string;
   reasoningSteps: string[];
   learningNote: string;
@@ -19,16 +30,71 @@ export interface AIActionResponse {
   plan?: ConstructionPlan;
 }
 
-export async function decideNextAction(
-  history: LogEntry[],
-  worldObjects: WorldObject[],
-  currentGoal: string,
-  knowledgeBase: KnowledgeEntry[],
-  terrainHeightMap: (x: number, z: number) => number,
-  progression: ProgressionStats,
-  activePlan?: ConstructionPlan
-): Promise<AIActionResponse> {
-  const scanRadius = 25;
+export interface DecisionContext {
+  history: LogEntry[];
+  worldObjects: WorldObject[];
+  currentGoal: string;
+  knowledgeBase: KnowledgeEntry[];
+  terrainHeightMap: (x: number, z: number) => number;
+  progression: ProgressionStats;
+  activePlan?: ConstructionPlan;
+  lastPlacement?: PlacementOutcome;
+  directiveMode?: DirectiveMode;
+  economy?: EconomyState;
+  avatarPosition?: [number, number, number];
+  agents?: BuilderAgent[];
+  tick?: number;
+  events?: EnvironmentEvent[];
+  // User blueprints; built-ins are always known.
+  blueprints?: Blueprint[];
+  planHistory?: PlanRecord[];
+  promptOptions?: Partial<PromptContextOptions>;
+}
+
+export type DecisionStreamEvent =
+  | { type: 'step'; text: string }
+  | { type: 'token'; text: string };
+
+export interface DecisionOptions {
+  signal?: AbortSignal;
+  onEvent?: (event: DecisionStreamEvent) => void;
+  // Called when a fallback provider takes over, so callers can credit the one that answered.
+  onFallback?: (provider: DecisionProvider) => void;
+}
+
+// Anything that can turn the current world into the agent's next action.
+export interface DecisionProvider {
+  id: string;
+  label: string;
+  decide(context: DecisionContext, options?: DecisionOptions): Promise<AIActionResponse>;
+}
+
+export const isAbortError = (error: unknown, signal?: AbortSignal) =>
+  signal?.aborted === true || (error instanceof Error && error.name === 'AbortError');
+
+export const UPLINK_WAIT_RESPONSE: AIActionResponse = {
+  action: 'WAIT',
+  reason: "Neural link disruption. Re-syncing with the core architecture protocols.",
+  reasoningSteps: ["Checking uplink", "Retrying neural handshake", "Buffer dump"],
+  learningNote: "Uplink Error: System waiting for API connectivity re-establishment.",
+  knowledgeCategory: 'Synthesis',
+  taskLabel: "API Re-Syncing"
+};
+
+// Worst-off structures listed in the prompt; the rest are only counted.
+const DAMAGED_PROMPT_LIMIT = 6;
+
+export function buildDecisionPrompt(context: DecisionContext): { systemInstruction: string; prompt: string } {
+  const { worldObjects, currentGoal, knowledgeBase, terrainHeightMap, progression, lastPlacement, directiveMode = 'soft', economy, avatarPosition = [0, 0, 0], agents = [], tick = 0, events = [], blueprints = [], planHistory = [] } = context;
+  const builds = worldObjects.filter(isUnderConstruction).map(o =>
+    `${o.type} ${o.id} ${Math.round(o.buildProgress! * 100)}% at [${o.position[0].toFixed(1)}, ${o.position[2].toFixed(1)}]${isOnSite(o, avatarPosition) ? ' (on site)' : ''}`);
+  const team = agents.map(a =>
+    `${a.id} ${a.status}${a.task ? ` on step ${a.task.stepIndex + 1}` : ''}${a.order ? ` (${a.order.action} ${a.order.targetId})` : ''} at [${a.position[0].toFixed(1)}, ${a.position[2].toFixed(1)}]${a.path?.length ? ` (${travelTicks(a.position, a.path)} tick(s) from destination)` : ''}`);
+  const needsRepair = worldObjects.filter(o => conditionOf(o) === 'damaged' || conditionOf(o) === 'wrecked').sort((a, b) => healthOf(a) - healthOf(b));
+  const damaged = needsRepair.slice(0, DAMAGED_PROMPT_LIMIT).map(o => `${o.type} ${o.id} ${Math.round(healthOf(o))}% ${conditionOf(o)}`);
+  if (needsRepair.length > DAMAGED_PROMPT_LIMIT) damaged.push(`+${needsRepair.length - DAMAGED_PROMPT_LIMIT} more`);
+  const upgraded = worldObjects.filter(o => (o.level ?? 1) > 1).map(o => `${o.type} ${o.id} L${o.level}`);
+  const contextBlock = buildPromptContext(context, context.promptOptions);
   const currentPos = worldObjects.length > 0 ? worldObjects[worldObjects.length - 1].position : [0, 0, 0];
   
   const establishedCorridors = worldObjects
@@ -68,6 +134,19 @@ export async function decideNextAction(
     NEURAL OBJECTIVE:
     Scale the Underworld environment. Focus on goal: "${currentGoal}".
     Current Complexity: Tier ${progression.settlementTier}.
+    Placements that overlap a structure or leave the 120m terrain are moved to the nearest free 2.5m cell or rejected.
+    PLACE starts a build; it advances only while the avatar stays within ${BUILD_RANGE}m of the site (WAIT there) and materials last.
+    A plan step completes when its build finishes; PLACE on a step already being built walks back to resume it.
+    Plan steps may list "dependsOn" (indices of earlier steps) and start only once those are completed. A step whose placement is rejected fails, steps depending on it are skipped, and a new plan replaces the active one.
+    Agents walk ${AGENT_SPEED}m per tick along paths around structures and steep slopes; MOVE and PLACE set the destination, WAIT keeps walking.
+    Seismic tremors damage structures standing on uneven ground, meteor strikes damage whatever is near impact, and dust storms cut solar output; structures also wear down slowly, and one at 0% health stops working.
+    REPAIR, UPGRADE and REMOVE take a "targetId"; agent-0 walks to the structure and does the work on arrival (WAIT to let it continue).
+    REPAIR restores ${REPAIR_PER_TICK}% health per tick for materials, UPGRADE raises output and storage by half per level (up to level ${MAX_LEVEL}), REMOVE salvages half the materials.
+    PLACE with "blueprint": "<name>" lays out a whole unlocked blueprint with its first step at "position" and makes it the active plan.
+    You steer agent-0; helper agents take other pending plan steps and build them in parallel.
+    Solar panels (power) and water collectors (water) supply modular units, data spires and crops; life support hubs add storage.
+    Consumers without enough supply go offline, so keep production ahead of demand before expanding.
+    Directives #4, #5, #7, #8 and #9-12 are enforced in ${directiveMode} mode (${directiveMode === 'hard' ? 'violating placements are rejected' : 'violations are logged'}).
     
     LOGGING REQUIREMENTS:
     Reasoning must use technical metadata terms like "Seismic Resonance", "Thermal Flux", and "Coordinate Snapping".
@@ -79,59 +158,146 @@ export async function decideNextAction(
     SCAN DATA:
     - Sector Stability: ${ (maxH - minH) < 1.0 ? 'Optimal (Zero-Elevation)' : 'High Variance' }
     - Active Corridors: ${establishedCorridors.join(' -> ')}
-    - Energy Status: ${worldObjects.some(o => o.type === 'solar_panel' || o.type === 'water_collector') ? 'Verified' : 'Unstable'}
+    - Energy Status: ${economy ? describeEconomy(economy) : worldObjects.some(o => o.type === 'solar_panel' || o.type === 'water_collector') ? 'Verified' : 'Unstable'}
     - Learning Iteration: ${knowledgeBase.length}
+    - Avatar Position: [${avatarPosition[0].toFixed(1)}, ${avatarPosition[2].toFixed(1)}]
+    - Environment: ${describeClock(tick)}, daylight ${Math.round(daylightFactor(tick) * 100)}%; ${events.length ? events.map(e => describeEvent(e, tick)).join(', ') : 'no events'}
+    - Damaged Structures: ${damaged.length ? damaged.join(', ') : 'none'}
+    - Upgraded Structures: ${upgraded.length ? upgraded.join(', ') : 'none'}
+    - Builder Agents: ${team.length ? team.join(', ') : 'agent-0 only'}
+    - Construction: ${builds.length ? builds.join(', ') : 'idle'}
+    - Directive Compliance: ${progression.complianceScore}%
+    - Tier: ${progression.settlementTier}
+    - Available Blueprints: ${availableBlueprints(blueprints, progression.unlockedBlueprints).map(describeBlueprint).join('; ') || 'none'}
+    - Recent Plans: ${planHistory.slice(-3).map(r => `"${r.plan.objective}" ${r.outcome}${r.reason ? ` (${r.reason})` : ''}`).join(', ') || 'none'}
+    - Next Milestones: ${describeNextMilestones(worldObjects, progression, currentGoal).join('; ') || 'all reached'}
+    - Last Placement: ${lastPlacement ? describePlacement(lastPlacement) : 'none'}
+
+    CONTEXT:
+${contextBlock.split('\n').map(line => `    ${line}`).join('\n')}
 
     TASK:
     Generate a synthesis action. Use Directive DATA_SYNTH_${(knowledgeBase.length % 16).toString().padStart(2, '0')} logic if applicable.
   `;
 
-  const requestPayload = {
-    systemInstruction,
-    prompt,
-    currentGoal,
-    progression
-  };
+  return { systemInstruction, prompt };
+}
+
+interface DecisionPayload {
+  systemInstruction: string;
+  prompt: string;
+  currentGoal: string;
+  progression: ProgressionStats;
+}
 
-  // Try each API endpoint with fallback
-  for (let i = 0; i < API_ENDPOINTS.length; i++) {
-    try {
-      const endpoint = API_ENDPOINTS[i];
-      console.log(`Attempting API call to endpoint ${i + 1}: ${endpoint}`);
-      
-      const response = await fetch(`${endpoint}/api/decide-action`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Accept': 'application/json'
-        },
-        body: JSON.stringify(requestPayload),
-        mode: 'cors',
-        credentials: 'omit'
-      });
-
-      if (!response.ok) {
-        throw new Error(`API request failed: ${response.statusText}`);
+type Transport = (endpoint: EndpointConfig, payload: DecisionPayload, timeoutMs: number, options: DecisionOptions) => Promise<unknown>;
+
+const requestWorkerDecision: Transport = (endpoint, payload, timeoutMs, { signal, onEvent }) =>
+  withRequestTimeout(timeoutMs, signal, async (requestSignal, touch) => {
+    const response = await fetch(`${endpoint.url.replace(/\/+$/, '')}/api/decide-action`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': onEvent ? STREAM_ACCEPT : 'application/json'
+      },
+      body: JSON.stringify({ ...payload, stream: !!onEvent }),
+      mode: 'cors',
+      credentials: 'omit',
+      signal: requestSignal
+    });
+
+    if (!response.ok) {
+      throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+    }
+    return onEvent ? readStreamedDecision(response, onEvent, touch) : response.json();
+  });
+
+const TRANSPORTS: Record<EndpointConfig['kind'], Transport> = {
+  worker: requestWorkerDecision,
+  openai: requestChatCompletion
+};
+
+/**
+ * Sends the decision prompt to the healthiest enabled endpoint first, falling
+ * through the rest with jittered backoff. Worker endpoints receive the raw
+ * payload; OpenAI-compatible endpoints receive it as a chat completion.
+ * Endpoints with an open breaker are skipped. When `onEvent` is supplied the
+ * request is made in streaming mode and steps are forwarded as they arrive.
+ * Throws once every candidate has failed so callers can decide how to degrade.
+ */
+export function createRemoteProvider(
+  endpoints: EndpointConfig[],
+  health: HealthTracker = createHealthTracker(),
+  timeoutMs: number = health.config.timeoutMs
+): DecisionProvider {
+  const enabled = endpoints.filter(e => e.enabled);
+  const byUrl = new Map(enabled.map(e => [e.url, e]));
+
+  return {
+    id: 'remote',
+    label: enabled[0]?.url ?? 'remote',
+    async decide(context, options = {}) {
+      const { systemInstruction, prompt } = buildDecisionPrompt(context);
+      const requestPayload: DecisionPayload = {
+        systemInstruction,
+        prompt,
+        currentGoal: context.currentGoal,
+        progression: context.progression
+      };
+
+      const candidates = health.rank(enabled.map(e => e.url));
+      if (candidates.length === 0) {
+        throw new Error(enabled.length ? "All neural endpoints have open circuit breakers" : "No neural endpoints enabled");
+      }
+
+      for (let i = 0; i < candidates.length; i++) {
+        const endpoint = byUrl.get(candidates[i])!;
+        if (i > 0) {
+          await sleep(backoffDelay(i - 1, health.config), options.signal);
+        }
+        options.signal?.throwIfAborted();
+        const startedAt = Date.now();
+        try {
+          console.log(`Attempting API call to endpoint ${i + 1}: ${endpoint.url}`);
+          const data = await TRANSPORTS[endpoint.kind](endpoint, requestPayload, timeoutMs, options);
+          health.recordSuccess(endpoint.url, Date.now() - startedAt);
+          console.log(`Successfully reached endpoint ${i + 1}: ${endpoint.url}`);
+          return data as AIActionResponse;
+        } catch (error) {
+          // A user cancellation says nothing about the endpoint's health.
+          if (isAbortError(error, options.signal)) throw error;
+          health.recordFailure(endpoint.url, error);
+          console.error(`Endpoint ${i + 1} failed:`, error);
+          // Try next endpoint
+        }
       }
 
-      const data = await response.json();
-      console.log(`Successfully reached endpoint ${i + 1}: ${endpoint}`);
-      return data as AIActionResponse;
-    } catch (error) {
-      console.error(`Endpoint ${i + 1} failed:`, error);
-      if (i === API_ENDPOINTS.length - 1) {
-        // All endpoints failed
-        console.error("All neural endpoints unreachable");
-        return {
-          action: 'WAIT',
-          reason: "Neural link disruption. Re-syncing with the core architecture protocols.",
-          reasoningSteps: ["Checking uplink", "Retrying neural handshake", "Buffer dump"],
-          learningNote: "Uplink Error: System waiting for API connectivity re-establishment.",
-          knowledgeCategory: 'Synthesis',
-          taskLabel: "API Re-Syncing"
-        };
+      console.error("All neural endpoints unreachable");
+      throw new Error("All neural endpoints unreachable");
+    }
+  };
+}
+
+// Resolves with the uplink WAIT response; used as the last resort behind the remote provider.
+export const uplinkWaitProvider: DecisionProvider = {
+  id: 'uplink-wait',
+  label: 'standby',
+  decide: async () => UPLINK_WAIT_RESPONSE
+};
+
+export function withFallback(primary: DecisionProvider, fallback: DecisionProvider): DecisionProvider {
+  return {
+    id: `${primary.id}+${fallback.id}`,
+    label: primary.label,
+    async decide(context, options) {
+      try {
+        return await primary.decide(context, options);
+      } catch (error) {
+        if (isAbortError(error, options?.signal)) throw error;
+        console.warn(`Provider ${primary.id} failed, falling back to ${fallback.id}:`, error);
+        options?.onFallback?.(fallback);
+        return fallback.decide(context, options);
       }
-      // Try next endpoint
     }
-  }
+  };
 }
@@ -0,0 +1,210 @@
+import * as THREE from "three";
+import { StructureCondition, WorldObject, WorldObjectType } from "../types";
+import { levelOf } from "./maintenance";
+
+type Vec3 = [number, number, number];
+
+/**
+ * One mesh of a model, placed relative to the structure's origin on the
+ * ground. Geometry is shared by every structure of the type, so parts can be
+ * drawn individually or batched into one InstancedMesh per part.
+ */
+export interface ModelPart {
+  geometry: THREE.BufferGeometry;
+  color: string;
+  metalness?: number;
+  roughness?: number;
+  emissive?: string;
+  // Emissive intensity while powered; 0.4 unless set.
+  glow?: number;
+  position?: Vec3;
+  rotation?: Vec3;
+  // Decorative overlay drawn as a faint wireframe; left out of exports.
+  wireframe?: boolean;
+}
+
+export interface ModelLight {
+  color: string;
+  intensity: number;
+  distance: number;
+  position: Vec3;
+}
+
+/**
+ * A structure type's full model, the reduced model drawn past the LOD
+ * distance, and an optional light. Every part sits within the type's
+ * footprint in services/occupancy.ts.
+ */
+export interface AssetModel {
+  parts: ModelPart[];
+  lowDetail: ModelPart[];
+  light?: ModelLight;
+}
+
+export const DAMAGE_TINT: Record<StructureCondition, number> = { sound: 0, worn: 0.2, damaged: 0.5, wrecked: 0.8 };
+export const DAMAGE_LEAN: Record<StructureCondition, number> = { sound: 0, worn: 0, damaged: 0.06, wrecked: 0.18 };
+const SCORCH = new THREE.Color('#44403c');
+const OFFLINE = new THREE.Color('#0b0f17');
+
+const box = (w: number, h: number, d: number) => new THREE.BoxGeometry(w, h, d);
+const cylinder = (top: number, bottom: number, height: number, segments = 16) => new THREE.CylinderGeometry(top, bottom, height, segments);
+
+const CROP_ROWS = [-0.6, 0, 0.6];
+
+const wall: ModelPart[] = [{ geometry: box(2.2, 2.5, 0.3), color: '#334155', metalness: 0.2, roughness: 0.8, emissive: '#1e293b', position: [0, 1.25, 0] }];
+
+const spireShaft: ModelPart = { geometry: cylinder(0.5, 0.8, 6, 6), color: '#0f172a', metalness: 0.9, roughness: 0.1, emissive: '#38bdf8', position: [0, 3, 0] };
+const hubDome: ModelPart = { geometry: new THREE.SphereGeometry(2, 16, 16, 0, Math.PI * 2, 0, Math.PI / 2), color: '#1e293b', metalness: 0.7, roughness: 0.2, emissive: '#0ea5e9', position: [0, 1.5, 0] };
+const unitShell: ModelPart = { geometry: box(2.5, 2.5, 2.5), color: '#1e293b', metalness: 0.8, roughness: 0.1, emissive: '#0f172a', position: [0, 1.25, 0] };
+const solarArray: ModelPart = { geometry: box(2, 0.1, 1.5), color: '#1d4ed8', metalness: 1, roughness: 0, emissive: '#2563eb', position: [0, 1.1, 0], rotation: [-Math.PI / 6, 0, 0] };
+const collectorTank: ModelPart = { geometry: cylinder(0.7, 0.75, 1.6), color: '#0c4a6e', metalness: 0.6, roughness: 0.3, position: [0, 0.8, 0] };
+
+/** One model per type. A new WorldObjectType fails to compile until it has an entry here. */
+export const ASSET_MODELS: Record<WorldObjectType, AssetModel> = {
+  data_spire: {
+    parts: [
+      spireShaft,
+      { geometry: new THREE.OctahedronGeometry(0.6), color: '#38bdf8', metalness: 1, roughness: 0, emissive: '#38bdf8', position: [0, 6.2, 0] },
+      { geometry: box(1.2, 5.5, 1.2), color: '#38bdf8', position: [0, 3, 0], rotation: [0, Math.PI / 4, 0], wireframe: true }
+    ],
+    lowDetail: [spireShaft]
+  },
+  life_support_hub: {
+    parts: [
+      hubDome,
+      { geometry: cylinder(2.1, 2.1, 0.2, 32), color: '#0ea5e9', metalness: 1, roughness: 0, emissive: '#0ea5e9', position: [0, 2, 0] }
+    ],
+    lowDetail: [hubDome],
+    light: { color: '#0ea5e9', intensity: 2, distance: 5, position: [0, 1.5, 0] }
+  },
+  wall: { parts: wall, lowDetail: wall },
+  modular_unit: {
+    parts: [
+      unitShell,
+      { geometry: new THREE.PlaneGeometry(1.8, 1.8), color: '#38bdf8', metalness: 1, roughness: 0, emissive: '#38bdf8', position: [0, 1.25, 1.26] }
+    ],
+    lowDetail: [unitShell]
+  },
+  solar_panel: {
+    parts: [
+      solarArray,
+      { geometry: cylinder(0.1, 0.15, 1.2, 8), color: '#475569', position: [0, 0.5, 0] }
+    ],
+    lowDetail: [solarArray]
+  },
+  // Condensation tank under an upturned funnel, with a glowing fill line.
+  water_collector: {
+    parts: [
+      collectorTank,
+      { geometry: cylinder(0.72, 0.72, 0.12), color: '#38bdf8', metalness: 1, roughness: 0, emissive: '#0ea5e9', position: [0, 1.1, 0] },
+      { geometry: new THREE.ConeGeometry(0.8, 0.5, 16), color: '#94a3b8', metalness: 0.8, roughness: 0.2, position: [0, 1.85, 0], rotation: [Math.PI, 0, 0] }
+    ],
+    lowDetail: [collectorTank]
+  },
+  // Pitched canopy on four posts, covering one grid cell.
+  roof: {
+    parts: [
+      ...[[-1.1, -1.1], [1.1, -1.1], [-1.1, 1.1], [1.1, 1.1]].map(([x, z]): ModelPart => ({ geometry: box(0.15, 2, 0.15), color: '#475569', metalness: 0.6, roughness: 0.4, position: [x, 1, z] })),
+      ...[1, -1].map((side): ModelPart => ({ geometry: box(2.5, 0.1, 1.45), color: '#7c2d12', metalness: 0.3, roughness: 0.7, emissive: '#431407', position: [0, 2.25, side * 0.62], rotation: [side * 0.45, 0, 0] })),
+      { geometry: cylinder(0.07, 0.07, 2.6, 8), color: '#f59e0b', metalness: 1, roughness: 0, emissive: '#f59e0b', position: [0, 2.55, 0], rotation: [0, 0, Math.PI / 2] }
+    ],
+    lowDetail: [{ geometry: box(2.5, 0.5, 2.5), color: '#7c2d12', metalness: 0.3, roughness: 0.7, position: [0, 2.3, 0] }]
+  },
+  // Freestanding door frame with a lit panel.
+  door: {
+    parts: [
+      ...[-0.6, 0.6].map((x): ModelPart => ({ geometry: box(0.2, 2.2, 0.35), color: '#334155', metalness: 0.4, roughness: 0.6, position: [x, 1.1, 0] })),
+      { geometry: box(1.4, 0.2, 0.35), color: '#334155', metalness: 0.4, roughness: 0.6, position: [0, 2.3, 0] },
+      { geometry: box(1, 2.1, 0.1), color: '#0f172a', metalness: 0.8, roughness: 0.2, emissive: '#1e293b', position: [0, 1.05, 0] },
+      { geometry: box(0.08, 1.6, 0.02), color: '#38bdf8', metalness: 1, roughness: 0, emissive: '#38bdf8', position: [0, 1.05, 0.06] }
+    ],
+    lowDetail: [{ geometry: box(1.4, 2.4, 0.35), color: '#334155', metalness: 0.4, roughness: 0.6, position: [0, 1.2, 0] }]
+  },
+  // Soil bed with a three-by-three planting.
+  crop: {
+    parts: [
+      { geometry: box(2, 0.2, 2), color: '#3f2a1d', metalness: 0, roughness: 0.9, position: [0, 0.1, 0] },
+      ...CROP_ROWS.flatMap(x => CROP_ROWS.map((z): ModelPart => ({ geometry: new THREE.ConeGeometry(0.18, 0.5, 6), color: '#16a34a', metalness: 0, roughness: 0.6, emissive: '#22c55e', position: [x, 0.45, z] })))
+    ],
+    lowDetail: [{ geometry: box(2, 0.5, 2), color: '#166534', metalness: 0, roughness: 0.8, position: [0, 0.25, 0] }]
+  },
+  tree: {
+    parts: [
+      { geometry: cylinder(0.15, 0.22, 1.6, 8), color: '#57534e', metalness: 0, roughness: 0.9, position: [0, 0.8, 0] },
+      { geometry: new THREE.IcosahedronGeometry(0.8, 0), color: '#15803d', metalness: 0, roughness: 0.7, emissive: '#14532d', position: [0, 2.1, 0] },
+      { geometry: new THREE.IcosahedronGeometry(0.5, 0), color: '#16a34a', metalness: 0, roughness: 0.7, emissive: '#14532d', position: [0, 2.75, 0] }
+    ],
+    lowDetail: [{ geometry: new THREE.ConeGeometry(0.8, 3, 6), color: '#15803d', metalness: 0, roughness: 0.7, position: [0, 1.5, 0] }]
+  },
+  // Stone shaft with a winch bar between two posts.
+  well: {
+    parts: [
+      { geometry: cylinder(0.8, 0.8, 0.7), color: '#57534e', metalness: 0.1, roughness: 0.9, position: [0, 0.35, 0] },
+      { geometry: cylinder(0.65, 0.65, 0.05), color: '#0ea5e9', metalness: 1, roughness: 0, emissive: '#0ea5e9', position: [0, 0.72, 0] },
+      ...[-0.7, 0.7].map((x): ModelPart => ({ geometry: box(0.1, 1.3, 0.1), color: '#44403c', metalness: 0.2, roughness: 0.8, position: [x, 0.95, 0] })),
+      { geometry: cylinder(0.05, 0.05, 1.5, 8), color: '#94a3b8', metalness: 0.8, roughness: 0.3, position: [0, 1.55, 0], rotation: [0, 0, Math.PI / 2] }
+    ],
+    lowDetail: [{ geometry: cylinder(0.8, 0.8, 1.2, 8), color: '#57534e', metalness: 0.1, roughness: 0.9, position: [0, 0.6, 0] }]
+  },
+  fence: {
+    parts: [
+      ...[-1.1, 0, 1.1].map((x): ModelPart => ({ geometry: box(0.12, 1.1, 0.12), color: '#475569', metalness: 0.5, roughness: 0.5, position: [x, 0.55, 0] })),
+      ...[0.4, 0.85].map((y): ModelPart => ({ geometry: box(2.4, 0.08, 0.06), color: '#64748b', metalness: 0.7, roughness: 0.3, emissive: '#1e293b', position: [0, y, 0] }))
+    ],
+    lowDetail: [{ geometry: box(2.4, 1.1, 0.12), color: '#475569', metalness: 0.5, roughness: 0.5, position: [0, 0.55, 0] }]
+  }
+};
+
+// Gold rings around an upgraded structure, one per level past the first.
+export const LEVEL_BANDS: ModelPart[] = [0, 1].map(i => ({
+  geometry: new THREE.TorusGeometry(1.4 + i * 0.25, 0.04, 8, 48),
+  color: '#fbbf24',
+  emissive: '#f59e0b',
+  glow: 0.8,
+  position: [0, 0.05 + i * 0.15, 0],
+  rotation: [Math.PI / 2, 0, 0]
+}));
+
+const partMatrices = new WeakMap<ModelPart, THREE.Matrix4>();
+
+export function partMatrix(part: ModelPart): THREE.Matrix4 {
+  let m = partMatrices.get(part);
+  if (!m) {
+    m = new THREE.Matrix4().compose(
+      new THREE.Vector3(...(part.position ?? [0, 0, 0])),
+      new THREE.Quaternion().setFromEuler(new THREE.Euler(...(part.rotation ?? [0, 0, 0]))),
+      new THREE.Vector3(1, 1, 1)
+    );
+    partMatrices.set(part, m);
+  }
+  return m;
+}
+
+const euler = new THREE.Euler();
+const quaternion = new THREE.Quaternion();
+const vector = new THREE.Vector3();
+const scaleVector = new THREE.Vector3();
+
+/** Where the structure stands: its position, rotation and scale. Level bands are drawn in this frame. */
+export function placementMatrix(o: WorldObject, target = new THREE.Matrix4()): THREE.Matrix4 {
+  return target.compose(vector.set(...o.position), quaternion.setFromEuler(euler.set(...o.rotation)), scaleVector.set(...o.scale));
+}
+
+const leanMatrix = new THREE.Matrix4();
+
+/** The frame model parts are drawn in: damaged structures lean and upgraded ones grow a little. */
+export function structureMatrix(o: WorldObject, target = new THREE.Matrix4()): THREE.Matrix4 {
+  const lean = DAMAGE_LEAN[o.condition ?? 'sound'];
+  const growth = 1 + (levelOf(o) - 1) * 0.1;
+  leanMatrix.compose(vector.set(0, 0, 0), quaternion.setFromEuler(euler.set(lean, 0, lean * 0.6)), scaleVector.set(growth, growth, growth));
+  return placementMatrix(o, target).multiply(leanMatrix);
+}
+
+/** A part's colour on a given structure: scorched with damage, near black while offline. */
+export function partColor(part: ModelPart, o: WorldObject, offline = false, target = new THREE.Color()): THREE.Color {
+  if (offline) return target.copy(OFFLINE);
+  return target.set(part.color).lerp(SCORCH, DAMAGE_TINT[o.condition ?? 'sound']);
+}
+
+// Offline or wrecked structures are drawn dark and still.
+export const isDark = (o: WorldObject, offline: Set<string>) => offline.has(o.id) || o.condition === 'wrecked';
@@ -0,0 +1,169 @@
+import { Blueprint, BlueprintStep, ConstructionPlan, KnowledgeCategory, PlanStep, WorldObject, WorldObjectType } from "../types";
+import { KNOWLEDGE_CATEGORIES, WORLD_OBJECT_TYPES } from "./responseValidation";
+import { snapToGrid as snap } from "./occupancy";
+import { isUnderConstruction } from "./construction";
+import { healthOf } from "./maintenance";
+
+export const BLUEPRINT_FILE_VERSION = 1;
+// Structures within this distance of the lead agent make up a saved cluster.
+export const CLUSTER_RADIUS = 7.5;
+
+// Built-ins are gated by ProgressionStats.unlockedBlueprints; each keeps every
+// modular unit within 5m of a thermal source (Directive #4).
+export const BUILTIN_BLUEPRINTS: Blueprint[] = [
+  {
+    name: 'Geothermal Core',
+    objective: 'Geothermal Energy Core',
+    category: 'Energy',
+    note: 'Thermal Coupling: Collectors paired with solar arrays stabilise the core output.',
+    steps: [
+      { label: 'Seat Solar Array', type: 'solar_panel', offset: [0, 0] },
+      { label: 'Sink Water Collector', type: 'water_collector', offset: [2.5, 0] },
+      { label: 'Attach Habitat Module', type: 'modular_unit', offset: [0, 2.5], dependsOn: [0] },
+      { label: 'Attach Habitat Module', type: 'modular_unit', offset: [2.5, 2.5], dependsOn: [0] }
+    ]
+  },
+  {
+    name: 'Biosphere Mesh',
+    objective: 'Biospheric Life Support Mesh',
+    category: 'Environment',
+    note: 'Biospheric Loop: Crops around a hub close the water and oxygen cycle.',
+    steps: [
+      { label: 'Raise Life Support Hub', type: 'life_support_hub', offset: [0, 0] },
+      { label: 'Sink Water Collector', type: 'water_collector', offset: [5, 0] },
+      { label: 'Seed Crop Bed', type: 'crop', offset: [0, 5], dependsOn: [0, 1] },
+      { label: 'Seed Crop Bed', type: 'crop', offset: [5, 5], dependsOn: [0, 1] }
+    ]
+  },
+  {
+    name: 'Neural Scaling',
+    objective: 'Neural Uplink Spire',
+    category: 'Infrastructure',
+    note: 'Uplink Shielding: Spires flanked by walls hold signal coherence.',
+    steps: [
+      { label: 'Seat Solar Array', type: 'solar_panel', offset: [0, 0] },
+      { label: 'Erect Data Spire', type: 'data_spire', offset: [2.5, 0], dependsOn: [0] },
+      { label: 'Shield Wall West', type: 'wall', offset: [0, 2.5], dependsOn: [1] },
+      { label: 'Shield Wall East', type: 'wall', offset: [5, 2.5], dependsOn: [1] }
+    ]
+  },
+  {
+    name: 'Citadel Block',
+    objective: 'Multi-Sector Synthesis Citadel',
+    category: 'Architecture',
+    note: 'Sector Synthesis: Corridors of habitats around a hub scale the citadel.',
+    steps: [
+      { label: 'Raise Life Support Hub', type: 'life_support_hub', offset: [0, 0] },
+      { label: 'Attach Habitat Module', type: 'modular_unit', offset: [0, 5], dependsOn: [0] },
+      { label: 'Attach Habitat Module', type: 'modular_unit', offset: [-5, 0], dependsOn: [0] },
+      { label: 'Corridor Wall', type: 'wall', offset: [0, 7.5], dependsOn: [1] },
+      { label: 'Erect Data Spire', type: 'data_spire', offset: [5, 0], dependsOn: [0] }
+    ]
+  }
+];
+
+const isBuiltin = (name: string) => BUILTIN_BLUEPRINTS.some(b => b.name === name);
+
+export const findBlueprint = (library: Blueprint[], name: string) =>
+  library.find(b => b.name.toLowerCase() === name.trim().toLowerCase());
+
+/** Built-ins the settlement has unlocked, followed by every user blueprint. */
+export const availableBlueprints = (custom: Blueprint[], unlocked: string[]) =>
+  [...BUILTIN_BLUEPRINTS.filter(b => unlocked.includes(b.name)), ...custom];
+
+/** "Geothermal Core (solar_panel, water_collector, 2x modular_unit)" */
+export function describeBlueprint(blueprint: Blueprint): string {
+  const counts = new Map<string, number>();
+  blueprint.steps.forEach(s => counts.set(s.type, (counts.get(s.type) ?? 0) + 1));
+  return `${blueprint.name} (${[...counts].map(([type, n]) => n > 1 ? `${n}x ${type}` : type).join(', ')})`;
+}
+
+/** Lays a blueprint out at a snapped anchor, seating every step on the terrain. */
+export function instantiateBlueprint(blueprint: Blueprint, anchor: [number, number], terrain: (x: number, z: number) => number, planId: string): ConstructionPlan {
+  const [ax, az] = [snap(anchor[0]), snap(anchor[1])];
+  const steps: PlanStep[] = blueprint.steps.map((s, idx) => {
+    const x = ax + s.offset[0];
+    const z = az + s.offset[1];
+    return { label: s.label, type: s.type, position: [x, terrain(x, z), z], status: idx === 0 ? 'active' : 'pending', dependsOn: s.dependsOn };
+  });
+  return { steps, currentStepIndex: 0, sourceBlueprint: blueprint.name, planId, objective: blueprint.objective };
+}
+
+// Finished, standing structures near a point, in the order they were placed.
+export const clusterAround = (objects: WorldObject[], center: [number, number, number], radius = CLUSTER_RADIUS) =>
+  objects
+    .filter(o => !isUnderConstruction(o) && healthOf(o) > 0)
+    .filter(o => Math.hypot(o.position[0] - center[0], o.position[2] - center[2]) <= radius)
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+/** Captures a cluster as a blueprint anchored on its first structure. */
+export function blueprintFromObjects(name: string, objects: WorldObject[]): Blueprint {
+  if (!name.trim()) throw new Error('Blueprint needs a name');
+  if (objects.length === 0) throw new Error('No finished structures to capture');
+  const [ax, , az] = objects[0].position;
+  return {
+    name: name.trim(),
+    objective: name.trim(),
+    category: 'Architecture',
+    note: `${name.trim()}: Saved from ${objects.length} standing structures.`,
+    steps: objects.map(o => ({ label: `Place ${o.type}`, type: o.type, offset: [snap(o.position[0] - ax), snap(o.position[2] - az)] }))
+  };
+}
+
+/**
+ * Adds blueprints to the user library, replacing any of the same name.
+ * Built-in names are reserved.
+ */
+export function addBlueprints(custom: Blueprint[], incoming: Blueprint[]): Blueprint[] {
+  const clash = incoming.find(b => isBuiltin(b.name));
+  if (clash) throw new Error(`"${clash.name}" is a built-in blueprint`);
+  const names = new Set(incoming.map(b => b.name.toLowerCase()));
+  return [...custom.filter(b => !names.has(b.name.toLowerCase())), ...incoming];
+}
+
+export const serializeBlueprints = (blueprints: Blueprint[]) =>
+  JSON.stringify({ version: BLUEPRINT_FILE_VERSION, blueprints }, null, 2);
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const isOffset = (v: unknown): v is [number, number] =>
+  Array.isArray(v) && v.length === 2 && v.every(n => typeof n === 'number' && Number.isFinite(n));
+
+// Dependencies may only point at earlier steps.
+const isDependencyList = (v: unknown, idx: number): v is number[] | undefined =>
+  v === undefined || (Array.isArray(v) && v.every(d => Number.isInteger(d) && d >= 0 && d < idx));
+
+function parseStep(raw: unknown, idx: number): BlueprintStep | null {
+  if (!isRecord(raw) || typeof raw.label !== 'string' || !WORLD_OBJECT_TYPES.includes(raw.type as WorldObjectType)) return null;
+  const { offset, dependsOn } = raw;
+  if (!isOffset(offset) || !isDependencyList(dependsOn, idx)) return null;
+  return { label: raw.label, type: raw.type as WorldObjectType, offset: [offset[0], offset[1]], dependsOn };
+}
+
+export function parseBlueprints(json: string): Blueprint[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Blueprint file is not valid JSON');
+  }
+  if (!isRecord(data) || data.version !== BLUEPRINT_FILE_VERSION) {
+    throw new Error(`Unsupported blueprint file version ${String(isRecord(data) ? data.version : undefined)} (expected ${BLUEPRINT_FILE_VERSION})`);
+  }
+  if (!Array.isArray(data.blueprints)) throw new Error('Blueprint file has no blueprints array');
+  return data.blueprints.map((b: unknown, i: number): Blueprint => {
+    if (!isRecord(b) || typeof b.name !== 'string' || !b.name.trim()) throw new Error(`blueprints[${i}] has no name`);
+    if (!Array.isArray(b.steps) || b.steps.length === 0) throw new Error(`blueprints[${i}] has no steps`);
+    const steps = b.steps.map(parseStep);
+    const bad = steps.indexOf(null);
+    if (bad !== -1) throw new Error(`blueprints[${i}].steps[${bad}] is malformed`);
+    const name = b.name.trim();
+    return {
+      name,
+      objective: typeof b.objective === 'string' ? b.objective : name,
+      category: KNOWLEDGE_CATEGORIES.includes(b.category as KnowledgeCategory) ? b.category as KnowledgeCategory : 'Architecture',
+      note: typeof b.note === 'string' ? b.note : `${name}: Imported blueprint.`,
+      steps: steps.filter((step): step is BlueprintStep => step !== null)
+    };
+  });
+}
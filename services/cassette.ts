@@ -0,0 +1,126 @@
+import { ProgressionStats } from "../types";
+import { AIActionResponse, DecisionContext, DecisionProvider, UPLINK_WAIT_RESPONSE, buildDecisionPrompt } from "./aiLogic";
+
+export const CASSETTE_VERSION = 1;
+
+export interface CassetteInput {
+  goal: string;
+  progression: ProgressionStats;
+  objectCount: number;
+  prompt: string;
+}
+
+export interface CassetteEntry {
+  input: CassetteInput;
+  response: AIActionResponse;
+}
+
+export interface Cassette {
+  version: typeof CASSETTE_VERSION;
+  createdAt: number;
+  // World seed the recording started from, so a replay can rebuild the same world.
+  seed?: number;
+  entries: CassetteEntry[];
+}
+
+export interface ReplayProvider extends DecisionProvider {
+  position(): number;
+  remaining(): number;
+}
+
+export const createCassette = (seed?: number): Cassette => ({ version: CASSETTE_VERSION, createdAt: Date.now(), seed, entries: [] });
+
+const captureInput = (context: DecisionContext): CassetteInput => ({
+  goal: context.currentGoal,
+  progression: context.progression,
+  objectCount: context.worldObjects.length,
+  prompt: buildDecisionPrompt(context).prompt
+});
+
+/**
+ * Wraps a provider and appends every input/response pair to `cassette`.
+ * Responses are stored exactly as the provider returned them, before
+ * validation, so a replay goes through the same repairs as the live run.
+ */
+export function createRecordingProvider(inner: DecisionProvider, cassette: Cassette, onRecord?: (entry: CassetteEntry) => void): DecisionProvider {
+  return {
+    id: `${inner.id}+rec`,
+    label: inner.label,
+    async decide(context, options) {
+      const input = captureInput(context);
+      const response = await inner.decide(context, options);
+      // Cloned so later in-place plan updates cannot rewrite the tape.
+      const entry = { input, response: structuredClone(response) };
+      cassette.entries.push(entry);
+      onRecord?.(entry);
+      return response;
+    }
+  };
+}
+
+/**
+ * Feeds a cassette back in recording order. A replay diverges when the world
+ * no longer matches what was recorded (different goal or object count); in
+ * `strict` mode that throws, otherwise it is only reported. Once the tape
+ * runs out every call resolves with the uplink WAIT response.
+ */
+export function createReplayProvider(cassette: Cassette, { strict = false } = {}): ReplayProvider {
+  let cursor = 0;
+  return {
+    id: 'replay',
+    label: `cassette://${cassette.entries.length}-entries`,
+    position: () => cursor,
+    remaining: () => cassette.entries.length - cursor,
+    async decide(context, options) {
+      options?.signal?.throwIfAborted();
+      const entry = cassette.entries[cursor];
+      if (!entry) return UPLINK_WAIT_RESPONSE;
+
+      if (entry.input.goal !== context.currentGoal || entry.input.objectCount !== context.worldObjects.length) {
+        const message = `Replay diverged at entry ${cursor}: recorded goal "${entry.input.goal}" with ${entry.input.objectCount} objects, ` +
+          `got "${context.currentGoal}" with ${context.worldObjects.length}`;
+        if (strict) throw new Error(message);
+        console.warn(message);
+      }
+
+      cursor++;
+      if (Array.isArray(entry.response?.reasoningSteps)) {
+        entry.response.reasoningSteps.forEach(text => options?.onEvent?.({ type: 'step', text }));
+      }
+      return structuredClone(entry.response);
+    }
+  };
+}
+
+export const serializeCassette = (cassette: Cassette) => JSON.stringify(cassette, null, 2);
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const isEntry = (e: unknown): e is CassetteEntry =>
+  isRecord(e) && isRecord(e.input) && typeof e.input.goal === 'string' && typeof e.input.objectCount === 'number' && isRecord(e.response);
+
+export function parseCassette(json: string): Cassette {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Cassette is not valid JSON');
+  }
+  if (!isRecord(data) || data.version !== CASSETTE_VERSION) {
+    throw new Error(`Unsupported cassette version ${String(isRecord(data) ? data.version : undefined)} (expected ${CASSETTE_VERSION})`);
+  }
+  const { entries } = data;
+  if (!Array.isArray(entries)) {
+    throw new Error('Cassette has no entries array');
+  }
+  const malformed = entries.findIndex(e => !isEntry(e));
+  if (malformed !== -1) {
+    throw new Error(`Cassette entry ${malformed} is malformed`);
+  }
+  return {
+    version: CASSETTE_VERSION,
+    createdAt: typeof data.createdAt === 'number' ? data.createdAt : 0,
+    seed: typeof data.seed === 'number' ? data.seed : undefined,
+    entries: entries.filter(isEntry)
+  };
+}
@@ -0,0 +1,72 @@
+import { WorldObject, WorldObjectType } from "../types";
+
+export interface BuildSpec {
+  // Ticks of on-site work to finish the structure.
+  ticks: number;
+  // Materials drawn over the whole build, spread evenly across its ticks.
+  materials: number;
+}
+
+export const BUILD_SPECS: Record<WorldObjectType, BuildSpec> = {
+  crop: { ticks: 1, materials: 1 },
+  fence: { ticks: 1, materials: 2 },
+  tree: { ticks: 1, materials: 1 },
+  door: { ticks: 1, materials: 2 },
+  roof: { ticks: 2, materials: 4 },
+  well: { ticks: 2, materials: 4 },
+  wall: { ticks: 2, materials: 4 },
+  water_collector: { ticks: 2, materials: 4 },
+  solar_panel: { ticks: 2, materials: 5 },
+  modular_unit: { ticks: 3, materials: 8 },
+  life_support_hub: { ticks: 4, materials: 12 },
+  data_spire: { ticks: 4, materials: 10 }
+};
+
+// How close an agent must stand for a build to advance.
+export const BUILD_RANGE = 4;
+const COMPLETE = 1 - 1e-6;
+
+export const isUnderConstruction = (o: WorldObject) => o.buildProgress !== undefined;
+
+export const isOnSite = (o: WorldObject, agent: [number, number, number]) =>
+  Math.hypot(o.position[0] - agent[0], o.position[2] - agent[2]) <= BUILD_RANGE;
+
+export interface ConstructionTick {
+  objects: WorldObject[];
+  materialsUsed: number;
+  completed: WorldObject[];
+  // On site but short of materials this tick.
+  stalled: WorldObject[];
+}
+
+/**
+ * Advances every build with at least one agent on site by one tick, paying
+ * each tick's share of materials up front. Builds nobody is standing at, or
+ * that cannot be paid for, do not move. Extra agents on the same site do not
+ * speed it up.
+ */
+export function advanceConstruction(objects: WorldObject[], agents: [number, number, number][], materials: number): ConstructionTick {
+  let remaining = materials;
+  const completed: WorldObject[] = [];
+  const stalled: WorldObject[] = [];
+
+  const next = objects.map(o => {
+    if (!isUnderConstruction(o) || !agents.some(p => isOnSite(o, p))) return o;
+    const spec = BUILD_SPECS[o.type];
+    const cost = spec.materials / spec.ticks;
+    if (cost > remaining) {
+      stalled.push(o);
+      return o;
+    }
+    remaining -= cost;
+    const progress = o.buildProgress! + 1 / spec.ticks;
+    if (progress >= COMPLETE) {
+      const { buildProgress: _done, ...built } = o;
+      completed.push(built);
+      return built;
+    }
+    return { ...o, buildProgress: progress };
+  });
+
+  return { objects: next, materialsUsed: materials - remaining, completed, stalled };
+}
@@ -0,0 +1,132 @@
+import { DecisionStreamEvent } from "./aiLogic";
+
+export const STREAM_ACCEPT = 'text/event-stream, application/x-ndjson, application/json';
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+/**
+ * Reads a response body line by line, calling `touch` on every chunk so the
+ * caller's idle timeout keeps running only while the stream is stalled.
+ */
+export async function readLines(response: Response, onLine: (line: string) => void, touch: () => void): Promise<void> {
+  if (!response.body) {
+    (await response.text()).split(/\r?\n/).forEach(onLine);
+    return;
+  }
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    touch();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split(/\r?\n/);
+    buffer = lines.pop() ?? '';
+    lines.forEach(onLine);
+  }
+  buffer += decoder.decode();
+  if (buffer) onLine(buffer);
+}
+
+// SSE payload lines look like `data: {...}`; comments, ids and the `[DONE]` sentinel carry nothing.
+export function sseData(line: string): string | null {
+  if (!line.startsWith('data:')) return null;
+  const data = line.slice(5).trim();
+  return data && data !== '[DONE]' ? data : null;
+}
+
+// Characters kept from the end of a chunk when the key has not been seen, in case it was cut in two.
+const KEY_OVERLAP = 64;
+
+/**
+ * Returns a reader for the `"reasoningSteps": [...]` array in JSON that
+ * arrives piece by piece. Each call takes the whole text received so far and
+ * returns only the string entries completed since the last call, so steps
+ * surface before the object closes. Scanning resumes where the previous call
+ * stopped, keeping a long stream linear. An entry that is not valid JSON ends
+ * the call; a later one retries from the same place.
+ */
+export function createPartialStepReader(): (partialJson: string) => string[] {
+  let searchFrom = 0;
+  // Position just after the last complete entry, or -1 until the array opens.
+  let offset = -1;
+  let closed = false;
+  const key = /"reasoningSteps"\s*:\s*\[/g;
+  const pattern = /\s*("(?:[^"\\]|\\.)*")\s*([,\]])/y;
+
+  return partialJson => {
+    if (closed) return [];
+    if (offset === -1) {
+      key.lastIndex = searchFrom;
+      const found = key.exec(partialJson);
+      if (!found) {
+        searchFrom = Math.max(0, partialJson.length - KEY_OVERLAP);
+        return [];
+      }
+      offset = found.index + found[0].length;
+    }
+    const steps: string[] = [];
+    pattern.lastIndex = offset;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(partialJson))) {
+      try {
+        steps.push(JSON.parse(match[1]));
+      } catch {
+        break;
+      }
+      offset = pattern.lastIndex;
+      if (match[2] === ']') {
+        closed = true;
+        break;
+      }
+    }
+    return steps;
+  };
+}
+
+/**
+ * Parses a decision from a worker response. Three shapes are accepted:
+ * plain JSON, Server-Sent Events and NDJSON. Streamed lines are
+ * `{ type: 'step' | 'token', text }` events or a final
+ * `{ type: 'decision', decision }`; a bare object with an `action` field also
+ * counts as the final decision.
+ */
+export async function readStreamedDecision(
+  response: Response,
+  onEvent: (event: DecisionStreamEvent) => void,
+  touch: () => void
+): Promise<unknown> {
+  const contentType = response.headers.get('content-type') ?? '';
+  if (!contentType.includes('text/event-stream') && !contentType.includes('ndjson')) {
+    const decision: unknown = await response.json();
+    if (isRecord(decision) && Array.isArray(decision.reasoningSteps)) {
+      decision.reasoningSteps.forEach((text: unknown) => typeof text === 'string' && onEvent({ type: 'step', text }));
+    }
+    return decision;
+  }
+
+  const isSse = contentType.includes('text/event-stream');
+  let decision: unknown;
+  await readLines(response, line => {
+    const payload = isSse ? sseData(line) : line.trim();
+    if (!payload) return;
+    let event: unknown;
+    try {
+      event = JSON.parse(payload);
+    } catch {
+      console.warn('Skipping unparseable stream line:', payload);
+      return;
+    }
+    if (!isRecord(event)) return;
+    if (event.type === 'step' && typeof event.text === 'string') onEvent({ type: 'step', text: event.text });
+    else if (event.type === 'token' && typeof event.text === 'string') onEvent({ type: 'token', text: event.text });
+    else if (event.type === 'decision') decision = event.decision;
+    else if ('action' in event) decision = event;
+  }, touch);
+
+  if (decision === undefined) {
+    throw new Error('Stream ended without a decision');
+  }
+  return decision;
+}
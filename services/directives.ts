@@ -0,0 +1,119 @@
+import { DirectiveMode, WorldObject, WorldObjectType } from "../types";
+import { GRID_SNAP, footprintAt } from "./occupancy";
+
+type TerrainHeight = (x: number, z: number) => number;
+
+export interface DirectiveSubject {
+  type: WorldObjectType;
+  position: [number, number, number];
+}
+
+export interface DirectiveViolation {
+  directive: string;
+  message: string;
+}
+
+export interface DirectiveRule {
+  directive: string;
+  title: string;
+  // Types the rule constrains; every type when omitted.
+  appliesTo?: WorldObjectType[];
+  // Returns a violation message, or null when the subject complies.
+  check: (subject: DirectiveSubject, others: WorldObject[], terrain: TerrainHeight) => string | null;
+}
+
+export const DIRECTIVE_MODES: DirectiveMode[] = ['soft', 'hard'];
+
+const THERMAL_SOURCES: WorldObjectType[] = ['solar_panel', 'water_collector', 'life_support_hub'];
+const CORRIDOR_TYPES: WorldObjectType[] = ['modular_unit', 'wall'];
+const THERMAL_RANGE = 5;
+const MAX_FOUNDATION_SPREAD = 0.75;
+const MAX_CONDUIT_ELEVATION = 0.5;
+const CORRIDOR_REACH = 5;
+const ALIGN_TOLERANCE = 0.1;
+
+/** Elevation difference across the corners of a structure's footprint. */
+export function foundationSpread(type: WorldObjectType, position: [number, number, number], terrain: TerrainHeight): number {
+  const fp = footprintAt(type, position[0], position[2]);
+  const heights = [terrain(fp.minX, fp.minZ), terrain(fp.minX, fp.maxZ), terrain(fp.maxX, fp.minZ), terrain(fp.maxX, fp.maxZ)];
+  return Math.max(...heights) - Math.min(...heights);
+}
+
+const distance = (a: [number, number, number], b: [number, number, number]) => Math.hypot(a[0] - b[0], a[2] - b[2]);
+const onGrid = (v: number) => Math.abs(v / GRID_SNAP - Math.round(v / GRID_SNAP)) * GRID_SNAP < 0.01;
+
+export const DIRECTIVES: DirectiveRule[] = [
+  {
+    directive: '#4',
+    title: 'Thermal proximity',
+    appliesTo: ['modular_unit'],
+    check: (subject, others) => {
+      const nearest = others
+        .filter(o => THERMAL_SOURCES.includes(o.type))
+        .reduce((min, o) => Math.min(min, distance(o.position, subject.position)), Infinity);
+      if (nearest <= THERMAL_RANGE) return null;
+      return nearest === Infinity
+        ? 'no thermal source in the settlement'
+        : `nearest thermal source is ${nearest.toFixed(1)}m away (max ${THERMAL_RANGE}m)`;
+    }
+  },
+  {
+    directive: '#5',
+    title: 'Foundation alignment',
+    check: (subject, _others, terrain) => {
+      const spread = foundationSpread(subject.type, subject.position, terrain);
+      return spread <= MAX_FOUNDATION_SPREAD ? null : `foundation spans ${spread.toFixed(2)}m of elevation (max ${MAX_FOUNDATION_SPREAD}m)`;
+    }
+  },
+  {
+    directive: '#7',
+    title: 'Coordinate snapping',
+    check: ({ position: [x, , z] }) =>
+      onGrid(x) && onGrid(z) ? null : `[${x.toFixed(2)}, ${z.toFixed(2)}] is off the ${GRID_SNAP}m grid`
+  },
+  {
+    directive: '#8',
+    title: 'Low-elevation conduits',
+    appliesTo: ['solar_panel', 'water_collector'],
+    check: ({ position: [x, , z] }, _others, terrain) => {
+      const h = terrain(x, z);
+      return h <= MAX_CONDUIT_ELEVATION ? null : `sited at ${h.toFixed(2)}m elevation (max ${MAX_CONDUIT_ELEVATION}m)`;
+    }
+  },
+  {
+    directive: '#9-12',
+    title: 'Corridor adherence',
+    appliesTo: CORRIDOR_TYPES,
+    check: (subject, others) => {
+      const corridor = others.filter(o => CORRIDOR_TYPES.includes(o.type));
+      if (corridor.length === 0) return null;
+      const adheres = corridor.some(o =>
+        distance(o.position, subject.position) <= CORRIDOR_REACH
+        || Math.abs(o.position[0] - subject.position[0]) < ALIGN_TOLERANCE
+        || Math.abs(o.position[2] - subject.position[2]) < ALIGN_TOLERANCE);
+      return adheres ? null : 'neither adjoins nor aligns with an established corridor';
+    }
+  }
+];
+
+/** Evaluates every directive that applies to `subject` against the rest of the settlement. */
+export function evaluatePlacement(subject: DirectiveSubject, others: WorldObject[], terrain: TerrainHeight): DirectiveViolation[] {
+  return DIRECTIVES
+    .filter(rule => !rule.appliesTo || rule.appliesTo.includes(subject.type))
+    .flatMap(rule => {
+      const message = rule.check(subject, others, terrain);
+      return message ? [{ directive: rule.directive, message: `${rule.title}: ${message}` }] : [];
+    });
+}
+
+/**
+ * Share of structures (0-100) that currently satisfy every directive, each
+ * judged against the rest of the settlement as it stands now.
+ */
+export function complianceScore(objects: WorldObject[], terrain: TerrainHeight): number {
+  if (objects.length === 0) return 100;
+  const compliant = objects.filter(o => evaluatePlacement(o, objects.filter(other => other !== o), terrain).length === 0).length;
+  return Math.round((compliant / objects.length) * 100);
+}
+
+export const describeViolation = (v: DirectiveViolation) => `Directive ${v.directive} ${v.message}`;
@@ -0,0 +1,115 @@
+import { EconomyState, ResourceKind, ResourceStatus, WorldObject, WorldObjectType } from "../types";
+import { daylightFactor } from "./environment";
+
+type TerrainHeight = (x: number, z: number) => number;
+type ResourceAmounts = Partial<Record<ResourceKind, number>>;
+
+export const RESOURCE_KINDS: ResourceKind[] = ['power', 'water', 'materials'];
+
+const perKind = (value: (kind: ResourceKind) => number) =>
+  Object.fromEntries(RESOURCE_KINDS.map(kind => [kind, value(kind)])) as Record<ResourceKind, number>;
+
+interface ResourceProfile {
+  produces?: ResourceAmounts;
+  consumes?: ResourceAmounts;
+  storage?: ResourceAmounts;
+}
+
+// Per-tick rates. Types without a profile neither produce nor consume.
+export const RESOURCE_PROFILES: Partial<Record<WorldObjectType, ResourceProfile>> = {
+  solar_panel: { produces: { power: 6 } },
+  water_collector: { produces: { water: 4 } },
+  life_support_hub: { produces: { power: 2, water: 1 }, storage: { power: 40, water: 40, materials: 20 } },
+  modular_unit: { consumes: { power: 2, water: 1 } },
+  data_spire: { consumes: { power: 5 } },
+  crop: { consumes: { water: 2 } }
+};
+
+// Storage and fabrication built into the landing core before anything is constructed.
+const BASE_CAPACITY: Record<ResourceKind, number> = { power: 20, water: 20, materials: 40 };
+const BASE_PRODUCTION: ResourceAmounts = { materials: 3 };
+
+/**
+ * How well a generator performs where it stands: panels gain on high ground,
+ * collectors gain in the low basins where water pools.
+ */
+function siteFactor(type: WorldObjectType, height: number): number {
+  if (type === 'solar_panel') return Math.max(0.5, 1 + height * 0.15);
+  if (type === 'water_collector') return Math.max(0.5, 1 - height * 0.2);
+  return 1;
+}
+
+// Each upgrade level past the first adds half the base output and storage.
+const levelBonus = (o: WorldObject) => 1 + ((o.level ?? 1) - 1) * 0.5;
+
+const emptyStatus = (stored: number, capacity: number): ResourceStatus => ({ produced: 0, demanded: 0, stored, capacity, deficit: 0 });
+
+export function createEconomy(): EconomyState {
+  return {
+    resources: Object.fromEntries(RESOURCE_KINDS.map(kind =>
+      [kind, emptyStatus(BASE_CAPACITY[kind] / 2, BASE_CAPACITY[kind])])) as Record<ResourceKind, ResourceStatus>,
+    offline: []
+  };
+}
+
+/**
+ * Advances the economy one tick. Generators add to what is stored, then
+ * consumers draw in construction order; a consumer whose full demand cannot
+ * be met goes offline for the tick and draws nothing. Leftovers are stored
+ * up to capacity. `weather` scales solar output on top of daylight.
+ */
+export function tickEconomy(prev: EconomyState, objects: WorldObject[], tick: number, terrain: TerrainHeight, weather = 1): EconomyState {
+  const daylight = daylightFactor(tick) * weather;
+  const produced = perKind(kind => BASE_PRODUCTION[kind] ?? 0);
+  const demanded = perKind(() => 0);
+  const capacity = perKind(kind => BASE_CAPACITY[kind]);
+  // Structures still under construction, or wrecked, neither produce nor consume.
+  const active = objects.filter(o => o.buildProgress === undefined && (o.health ?? 100) > 0);
+
+  active.forEach(o => {
+    const profile = RESOURCE_PROFILES[o.type];
+    if (!profile) return;
+    const site = siteFactor(o.type, terrain(o.position[0], o.position[2]));
+    const upgrade = levelBonus(o);
+    RESOURCE_KINDS.forEach(kind => {
+      const base = profile.produces?.[kind] ?? 0;
+      produced[kind] += base * site * upgrade * (o.type === 'solar_panel' ? daylight : 1);
+      capacity[kind] += (profile.storage?.[kind] ?? 0) * upgrade;
+    });
+  });
+
+  const available = perKind(kind => Math.min(prev.resources[kind]?.stored ?? 0, capacity[kind]) + produced[kind]);
+  const deficit = perKind(() => 0);
+  const offline: string[] = [];
+
+  active.forEach(o => {
+    const needs = RESOURCE_PROFILES[o.type]?.consumes;
+    if (!needs) return;
+    RESOURCE_KINDS.forEach(kind => { demanded[kind] += needs[kind] ?? 0; });
+    const short = RESOURCE_KINDS.filter(kind => (needs[kind] ?? 0) > available[kind]);
+    if (short.length > 0) {
+      offline.push(o.id);
+      short.forEach(kind => { deficit[kind] += (needs[kind] ?? 0) - available[kind]; });
+      return;
+    }
+    RESOURCE_KINDS.forEach(kind => { available[kind] -= needs[kind] ?? 0; });
+  });
+
+  const status = (kind: ResourceKind): ResourceStatus => ({
+    produced: produced[kind],
+    demanded: demanded[kind],
+    stored: Math.min(available[kind], capacity[kind]),
+    capacity: capacity[kind],
+    deficit: deficit[kind]
+  });
+  return { resources: Object.fromEntries(RESOURCE_KINDS.map(kind => [kind, status(kind)])) as Record<ResourceKind, ResourceStatus>, offline };
+}
+
+export function describeEconomy(economy: EconomyState): string {
+  const parts = RESOURCE_KINDS.map(kind => {
+    const r = economy.resources[kind];
+    if (r.demanded === 0) return `${kind} +${r.produced.toFixed(1)} per tick, stored ${r.stored.toFixed(0)}/${r.capacity.toFixed(0)}`;
+    return `${kind} +${r.produced.toFixed(1)}/-${r.demanded.toFixed(1)} per tick, stored ${r.stored.toFixed(0)}/${r.capacity.toFixed(0)}${r.deficit > 0 ? `, short ${r.deficit.toFixed(1)}` : ''}`;
+  });
+  return `${parts.join('; ')}; ${economy.offline.length} structures offline`;
+}
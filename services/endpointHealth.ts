@@ -0,0 +1,212 @@
+export type BreakerState = 'closed' | 'open' | 'half_open';
+
+export interface HealthConfig {
+  windowSize: number;
+  failureThreshold: number;
+  errorRateThreshold: number;
+  cooldownMs: number;
+  timeoutMs: number;
+  backoffBaseMs: number;
+  backoffMaxMs: number;
+}
+
+export const DEFAULT_HEALTH_CONFIG: HealthConfig = {
+  windowSize: 20,
+  failureThreshold: 3,
+  errorRateThreshold: 0.5,
+  cooldownMs: 30000,
+  timeoutMs: 12000,
+  backoffBaseMs: 250,
+  backoffMaxMs: 4000
+};
+
+export interface EndpointHealth {
+  endpoint: string;
+  latencies: number[];
+  outcomes: boolean[];
+  breaker: BreakerState;
+  consecutiveFailures: number;
+  openedAt?: number;
+  lastError?: string;
+}
+
+export interface EndpointHealthSummary {
+  endpoint: string;
+  breaker: BreakerState;
+  averageLatency: number | null;
+  errorRate: number;
+  samples: number;
+  lastError?: string;
+}
+
+export interface HealthTracker {
+  config: HealthConfig;
+  rank(endpoints: string[], now?: number): string[];
+  recordSuccess(endpoint: string, latencyMs: number): void;
+  recordFailure(endpoint: string, error: unknown, now?: number): void;
+  snapshot(endpoints?: string[]): EndpointHealthSummary[];
+  subscribe(listener: () => void): () => void;
+}
+
+const pushWindow = <T,>(list: T[], value: T, size: number) => [...list, value].slice(-size);
+
+export function summarize(health: EndpointHealth): EndpointHealthSummary {
+  const failures = health.outcomes.filter(ok => !ok).length;
+  return {
+    endpoint: health.endpoint,
+    breaker: health.breaker,
+    averageLatency: health.latencies.length ? Math.round(health.latencies.reduce((a, b) => a + b, 0) / health.latencies.length) : null,
+    errorRate: health.outcomes.length ? failures / health.outcomes.length : 0,
+    samples: health.outcomes.length,
+    lastError: health.lastError
+  };
+}
+
+// Lower is healthier: error rate is weighted as if every failure cost a full timeout.
+export function healthScore(summary: EndpointHealthSummary, config: HealthConfig): number {
+  return summary.errorRate * config.timeoutMs
+    + (summary.averageLatency ?? 0)
+    + (summary.breaker === 'half_open' ? config.timeoutMs : 0);
+}
+
+export function deriveNetworkStatus(summaries: EndpointHealthSummary[]): 'offline' | 'degraded' | 'uplink_active' {
+  if (summaries.length === 0 || summaries.every(s => s.breaker === 'open')) return 'offline';
+  if (summaries.some(s => s.breaker !== 'closed' || s.errorRate > 0)) return 'degraded';
+  return 'uplink_active';
+}
+
+// Full-jitter exponential backoff: a random delay in [0, min(max, base * 2^attempt)].
+export function backoffDelay(attempt: number, config: HealthConfig, random: () => number = Math.random): number {
+  const ceiling = Math.min(config.backoffMaxMs, config.backoffBaseMs * 2 ** attempt);
+  return Math.round(random() * ceiling);
+}
+
+// Resolves after `ms`, or rejects with the signal's reason as soon as it aborts.
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Runs `run` under an idle timeout: the request is aborted when `timeoutMs`
+ * passes without `touch()` being called. Streaming readers call `touch()` on
+ * every chunk so long generations survive while stalled ones do not. An outer
+ * signal (e.g. user cancellation) is chained so either source aborts.
+ */
+export async function withRequestTimeout<T>(
+  timeoutMs: number,
+  signal: AbortSignal | undefined,
+  run: (signal: AbortSignal, touch: () => void) => Promise<T>
+): Promise<T> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const touch = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => controller.abort(new Error(`Request timed out after ${timeoutMs}ms`)), timeoutMs);
+  };
+  const onAbort = () => controller.abort(signal?.reason);
+  if (signal) {
+    if (signal.aborted) controller.abort(signal.reason);
+    else signal.addEventListener('abort', onAbort, { once: true });
+  }
+  touch();
+  try {
+    return await run(controller.signal, touch);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+export function fetchWithTimeout(url: string, init: RequestInit, timeoutMs: number, signal?: AbortSignal): Promise<Response> {
+  return withRequestTimeout(timeoutMs, signal, s => fetch(url, { ...init, signal: s }));
+}
+
+/**
+ * Tracks rolling latency and error rate per endpoint and runs a circuit
+ * breaker for each: `closed` passes traffic, `open` blocks it until the
+ * cooldown elapses, `half_open` lets a single probe through to decide which
+ * way to flip.
+ */
+export function createHealthTracker(overrides: Partial<HealthConfig> = {}): HealthTracker {
+  const config = { ...DEFAULT_HEALTH_CONFIG, ...overrides };
+  const entries = new Map<string, EndpointHealth>();
+  const listeners = new Set<() => void>();
+
+  const get = (endpoint: string) => {
+    let health = entries.get(endpoint);
+    if (!health) {
+      health = { endpoint, latencies: [], outcomes: [], breaker: 'closed', consecutiveFailures: 0 };
+      entries.set(endpoint, health);
+    }
+    return health;
+  };
+
+  const update = (endpoint: string, next: EndpointHealth) => {
+    entries.set(endpoint, next);
+    listeners.forEach(l => l());
+  };
+
+  const refreshBreaker = (health: EndpointHealth, now: number) => {
+    if (health.breaker === 'open' && health.openedAt !== undefined && now - health.openedAt >= config.cooldownMs) {
+      update(health.endpoint, { ...health, breaker: 'half_open' });
+    }
+  };
+
+  return {
+    config,
+    rank(endpoints, now = Date.now()) {
+      endpoints.forEach(e => refreshBreaker(get(e), now));
+      return endpoints
+        .map((endpoint, order) => ({ endpoint, order, summary: summarize(get(endpoint)) }))
+        .filter(e => e.summary.breaker !== 'open')
+        .sort((a, b) => healthScore(a.summary, config) - healthScore(b.summary, config) || a.order - b.order)
+        .map(e => e.endpoint);
+    },
+    recordSuccess(endpoint, latencyMs) {
+      const health = get(endpoint);
+      update(endpoint, {
+        ...health,
+        latencies: pushWindow(health.latencies, latencyMs, config.windowSize),
+        outcomes: pushWindow(health.outcomes, true, config.windowSize),
+        breaker: 'closed',
+        consecutiveFailures: 0,
+        openedAt: undefined
+      });
+    },
+    recordFailure(endpoint, error, now = Date.now()) {
+      const health = get(endpoint);
+      const outcomes = pushWindow(health.outcomes, false, config.windowSize);
+      const consecutiveFailures = health.consecutiveFailures + 1;
+      const errorRate = outcomes.filter(ok => !ok).length / outcomes.length;
+      const trip = health.breaker === 'half_open'
+        || consecutiveFailures >= config.failureThreshold
+        || (outcomes.length >= config.failureThreshold && errorRate >= config.errorRateThreshold);
+      update(endpoint, {
+        ...health,
+        outcomes,
+        consecutiveFailures,
+        breaker: trip ? 'open' : health.breaker,
+        openedAt: trip ? now : health.openedAt,
+        lastError: error instanceof Error ? error.message : String(error)
+      });
+    },
+    snapshot(endpoints = [...entries.keys()]) {
+      return endpoints.map(e => summarize(get(e)));
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    }
+  };
+}
@@ -0,0 +1,92 @@
+import { DEFAULT_HEALTH_CONFIG } from "./endpointHealth";
+import { DEFAULT_PROMPT_CONTEXT_OPTIONS } from "./promptContext";
+
+export type EndpointKind = 'worker' | 'openai';
+
+export interface EndpointConfig {
+  id: string;
+  label: string;
+  url: string;
+  kind: EndpointKind;
+  enabled: boolean;
+  model?: string;
+  apiKey?: string;
+}
+
+export interface UplinkSettings {
+  endpoints: EndpointConfig[];
+  timeoutMs: number;
+  promptBudgetChars: number;
+}
+
+const STORAGE_KEY = 'underworld.uplink.v1';
+
+export const DEFAULT_UPLINK_SETTINGS: UplinkSettings = {
+  endpoints: [
+    { id: 'apiland', label: 'apiland', url: 'https://apiland.yusufsamodin67.workers.dev', kind: 'worker', enabled: true },
+    { id: 'holy-base', label: 'holy-base', url: 'https://holy-base-3924.yusufsamodin67.workers.dev', kind: 'worker', enabled: true },
+    { id: 'ollama', label: 'ollama', url: 'http://localhost:11434/v1', kind: 'openai', model: 'llama3.1', enabled: false }
+  ],
+  timeoutMs: DEFAULT_HEALTH_CONFIG.timeoutMs,
+  promptBudgetChars: DEFAULT_PROMPT_CONTEXT_OPTIONS.maxChars
+};
+
+export const ENDPOINT_TEMPLATES: Record<EndpointKind, Omit<EndpointConfig, 'id'>> = {
+  worker: { label: 'worker', url: 'https://', kind: 'worker', enabled: true },
+  openai: { label: 'local-llm', url: 'http://localhost:11434/v1', kind: 'openai', model: 'llama3.1', enabled: true }
+};
+
+export function validateEndpointUrl(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return 'URL must use http or https';
+    return null;
+  } catch {
+    return 'URL is not valid';
+  }
+}
+
+const isEndpointConfig = (v: unknown): v is EndpointConfig => {
+  if (typeof v !== 'object' || v === null) return false;
+  const e = v as Record<string, unknown>;
+  return typeof e.id === 'string'
+    && typeof e.label === 'string'
+    && typeof e.url === 'string'
+    && (e.kind === 'worker' || e.kind === 'openai')
+    && typeof e.enabled === 'boolean';
+};
+
+/**
+ * Reads persisted uplink settings, falling back to the defaults when nothing
+ * is stored or the stored value does not parse.
+ */
+export function loadUplinkSettings(storage: Storage | undefined = globalThis.localStorage): UplinkSettings {
+  try {
+    const raw = storage?.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_UPLINK_SETTINGS;
+    const parsed = JSON.parse(raw);
+    const endpoints = Array.isArray(parsed?.endpoints) ? parsed.endpoints.filter(isEndpointConfig) : [];
+    if (endpoints.length === 0) return DEFAULT_UPLINK_SETTINGS;
+    const positive = (v: unknown, fallback: number) => typeof v === 'number' && v > 0 ? v : fallback;
+    return {
+      endpoints,
+      timeoutMs: positive(parsed.timeoutMs, DEFAULT_UPLINK_SETTINGS.timeoutMs),
+      promptBudgetChars: positive(parsed.promptBudgetChars, DEFAULT_UPLINK_SETTINGS.promptBudgetChars)
+    };
+  } catch (error) {
+    console.warn('Discarding unreadable uplink settings:', error);
+    return DEFAULT_UPLINK_SETTINGS;
+  }
+}
+
+export function saveUplinkSettings(settings: UplinkSettings, storage: Storage | undefined = globalThis.localStorage): void {
+  storage?.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+export function moveEndpoint(endpoints: EndpointConfig[], index: number, delta: number): EndpointConfig[] {
+  const target = index + delta;
+  if (target < 0 || target >= endpoints.length) return endpoints;
+  const next = [...endpoints];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+}
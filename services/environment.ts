@@ -0,0 +1,104 @@
+import { EnvironmentEvent, EnvironmentEventKind, WorldObject } from "../types";
+import { foundationSpread } from "./directives";
+import { TERRAIN_HALF } from "./terrain";
+
+type TerrainHeight = (x: number, z: number) => number;
+
+export const DAY_LENGTH_TICKS = 24;
+// Tick 0 is sunrise.
+const FIRST_HOUR = 6;
+
+/** Height of the sun from -1 (midnight) through 0 (sunrise, sunset) to 1 (noon). */
+export const sunElevation = (tick: number) => Math.sin((tick / DAY_LENGTH_TICKS) * Math.PI * 2);
+
+/** Sunlight between 0.2 (night) and 1 (noon) for a tick of the day cycle. */
+export const daylightFactor = (tick: number) => 0.6 + 0.4 * sunElevation(tick);
+
+/** Sun direction for the sky: rises in the east (+x), sets in the west. */
+export function sunPosition(tick: number): [number, number, number] {
+  const angle = (tick / DAY_LENGTH_TICKS) * Math.PI * 2;
+  return [Math.cos(angle) * 100, Math.sin(angle) * 100, 30];
+}
+
+export function describeClock(tick: number): string {
+  const day = Math.floor(tick / DAY_LENGTH_TICKS) + 1;
+  const minutes = Math.round(((tick % DAY_LENGTH_TICKS) / DAY_LENGTH_TICKS) * 24 * 60 + FIRST_HOUR * 60) % (24 * 60);
+  return `Day ${day} ${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+interface EventSpec {
+  label: string;
+  // Chance per tick of firing while no event of the kind is in effect.
+  chance: number;
+  duration: [number, number];
+  // Metres around the epicenter that take damage; no epicenter when absent.
+  radius?: number;
+  // Damage at the epicenter at full intensity, before terrain is considered.
+  damage?: number;
+  // Share of solar output lost at full intensity.
+  solarLoss?: number;
+}
+
+export const EVENT_SPECS: Record<EnvironmentEventKind, EventSpec> = {
+  seismic_tremor: { label: 'seismic tremor', chance: 0.05, duration: [1, 1], radius: 30, damage: 60 },
+  dust_storm: { label: 'dust storm', chance: 0.04, duration: [3, 6], solarLoss: 0.6 },
+  meteor_strike: { label: 'meteor strike', chance: 0.015, duration: [1, 1], radius: 6, damage: 50 }
+};
+
+const EVENT_KINDS = Object.keys(EVENT_SPECS) as EnvironmentEventKind[];
+
+export const isEventActive = (event: EnvironmentEvent, tick: number) => event.startedTick + event.duration > tick;
+
+/**
+ * Rolls for at most one new event on `tick`. Kinds already in effect do not
+ * fire again. Draws from `random` in a fixed order so seeded runs repeat.
+ */
+export function rollEvent(tick: number, active: EnvironmentEvent[], random: () => number, nextId: () => string): EnvironmentEvent | undefined {
+  let roll = random();
+  const kind = EVENT_KINDS.find(k => {
+    roll -= EVENT_SPECS[k].chance;
+    return roll < 0;
+  });
+  if (!kind || active.some(e => e.kind === kind)) return undefined;
+  const spec = EVENT_SPECS[kind];
+  const intensity = 0.3 + random() * 0.7;
+  const duration = spec.duration[0] + Math.floor(random() * (spec.duration[1] - spec.duration[0] + 1));
+  const epicenter: [number, number] | undefined = spec.radius !== undefined
+    ? [(random() * 2 - 1) * TERRAIN_HALF * 0.5, (random() * 2 - 1) * TERRAIN_HALF * 0.5]
+    : undefined;
+  return { id: nextId(), kind, startedTick: tick, duration, intensity, epicenter };
+}
+
+/**
+ * Health lost by each structure an event hits. Tremors shake apart what
+ * stands on uneven ground and spare level foundations; meteors hit whatever
+ * is near the impact.
+ */
+export function eventDamage(event: EnvironmentEvent, objects: WorldObject[], terrain: TerrainHeight): Map<string, number> {
+  const spec = EVENT_SPECS[event.kind];
+  const damage = new Map<string, number>();
+  if (!event.epicenter || spec.radius === undefined || spec.damage === undefined) return damage;
+  const [ex, ez] = event.epicenter;
+  objects.forEach(o => {
+    const falloff = 1 - Math.hypot(o.position[0] - ex, o.position[2] - ez) / spec.radius!;
+    if (falloff <= 0) return;
+    const exposure = event.kind === 'seismic_tremor' ? Math.min(1, foundationSpread(o.type, o.position, terrain)) : 1;
+    const amount = Math.round(spec.damage! * event.intensity * falloff * exposure);
+    if (amount > 0) damage.set(o.id, amount);
+  });
+  return damage;
+}
+
+/** Multiplier on solar output from the weather in effect. */
+export const weatherFactor = (events: EnvironmentEvent[]) =>
+  events.reduce((factor, e) => factor * (1 - (EVENT_SPECS[e.kind].solarLoss ?? 0) * e.intensity), 1);
+
+export function describeEvent(event: EnvironmentEvent, tick: number): string {
+  const spec = EVENT_SPECS[event.kind];
+  const parts = [`intensity ${Math.round(event.intensity * 100)}%`];
+  if (event.epicenter) parts.push(`at [${event.epicenter[0].toFixed(1)}, ${event.epicenter[1].toFixed(1)}]`);
+  const remaining = event.startedTick + event.duration - 1 - tick;
+  if (remaining > 0) parts.push(`${remaining} more tick(s)`);
+  if (spec.solarLoss) parts.push(`solar -${Math.round(spec.solarLoss * event.intensity * 100)}%`);
+  return `${spec.label} (${parts.join(', ')})`;
+}
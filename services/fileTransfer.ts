@@ -0,0 +1,11 @@
+export function downloadBlob(filename: string, blob: Blob): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export const downloadText = (filename: string, text: string, type = 'application/json') =>
+  downloadBlob(filename, new Blob([text], { type }));
@@ -0,0 +1,282 @@
+import { WorldObject, ConstructionPlan, PlanStep, DirectiveMode, EconomyState, ResourceKind, Blueprint, BlueprintStep } from "../types";
+import { AIActionResponse, DecisionContext, DecisionProvider } from "./aiLogic";
+import { GRID_SNAP, OccupancyIndex, createOccupancyIndex, snapToGrid as snap } from "./occupancy";
+import { evaluatePlacement } from "./directives";
+import { RESOURCE_KINDS } from "./economy";
+import { isOnSite, isUnderConstruction } from "./construction";
+import { MAX_LEVEL, healthOf, levelOf, upgradeCost } from "./maintenance";
+import { availableBlueprints, findBlueprint, instantiateBlueprint } from "./blueprints";
+
+// Goals are matched to a built-in blueprint by a keyword in their title.
+const GOAL_BLUEPRINTS: { match: string; blueprint: string }[] = [
+  { match: 'geothermal', blueprint: 'Geothermal Core' },
+  { match: 'life support', blueprint: 'Biosphere Mesh' },
+  { match: 'spire', blueprint: 'Neural Scaling' },
+  { match: 'citadel', blueprint: 'Citadel Block' }
+];
+
+const SECTOR_LIMIT = 55;
+const MAX_SLOPE_VARIANCE = 1.0;
+
+// One-generator plans queued ahead of the goal blueprint while the grid runs short.
+// Materials come only from the landing core, so there is nothing to build for them.
+const RELIEF_BLUEPRINTS: Partial<Record<ResourceKind, Blueprint>> = {
+  power: {
+    name: 'Grid Reinforcement',
+    objective: 'Grid Reinforcement',
+    category: 'Energy',
+    note: 'Grid Balance: Solar arrays must lead consumer expansion.',
+    steps: [{ label: 'Seat Solar Array', type: 'solar_panel', offset: [0, 0] }]
+  },
+  water: {
+    name: 'Hydraulic Reinforcement',
+    objective: 'Hydraulic Reinforcement',
+    category: 'Environment',
+    note: 'Hydraulic Balance: Collectors in low basins keep habitats supplied.',
+    steps: [{ label: 'Sink Water Collector', type: 'water_collector', offset: [0, 0] }]
+  }
+};
+
+const RESERVE_FRACTION = 0.25;
+// Structures below this health are repaired before any new work.
+const REPAIR_THRESHOLD = 50;
+
+// The resource furthest behind demand, if any is in deficit or draining a nearly empty store.
+function shortestResource(economy: EconomyState | undefined): ResourceKind | null {
+  if (!economy) return null;
+  const gap = (kind: ResourceKind) => economy.resources[kind].demanded - economy.resources[kind].produced;
+  const short = RESOURCE_KINDS.filter(kind => RELIEF_BLUEPRINTS[kind]).filter(kind => {
+    const r = economy.resources[kind];
+    return r.deficit > 0 || (gap(kind) > 0 && r.stored < r.capacity * RESERVE_FRACTION);
+  });
+  return short.sort((a, b) => gap(b) - gap(a))[0] ?? null;
+}
+
+// The goal's blueprint, or while that is still locked the latest unlocked one before it.
+function blueprintForGoal(goal: string, library: Blueprint[]): Blueprint {
+  const lower = goal.toLowerCase();
+  const idx = Math.max(0, GOAL_BLUEPRINTS.findIndex(g => lower.includes(g.match)));
+  const unlocked = GOAL_BLUEPRINTS.slice(0, idx + 1).reverse().map(g => findBlueprint(library, g.blueprint)).find(b => b);
+  return unlocked ?? findBlueprint(library, GOAL_BLUEPRINTS[0].blueprint) ?? RELIEF_BLUEPRINTS.power!;
+}
+
+function isClear(step: BlueprintStep, x: number, z: number, occupancy: OccupancyIndex): boolean {
+  if (Math.abs(x) > SECTOR_LIMIT || Math.abs(z) > SECTOR_LIMIT) return false;
+  return occupancy.fits(step.type, x, z);
+}
+
+function slopeVariance(x: number, z: number, terrain: DecisionContext['terrainHeightMap']): number {
+  let minH = Infinity, maxH = -Infinity;
+  for (let dx = -5; dx <= 5; dx += 5) {
+    for (let dz = -5; dz <= 5; dz += 5) {
+      const h = terrain(x + dx, z + dz);
+      minH = Math.min(minH, h);
+      maxH = Math.max(maxH, h);
+    }
+  }
+  return maxH - minH;
+}
+
+// Directive violations the blueprint would raise if its steps were placed in order at the anchor.
+function templateViolations(template: Blueprint, ax: number, az: number, objects: WorldObject[], terrain: DecisionContext['terrainHeightMap']): number {
+  const placed = [...objects];
+  return template.steps.reduce((count, s, idx) => {
+    const x = ax + s.offset[0];
+    const z = az + s.offset[1];
+    const position: [number, number, number] = [x, terrain(x, z), z];
+    const violations = evaluatePlacement({ type: s.type, position }, placed, terrain).length;
+    placed.push({ id: `template-${idx}`, type: s.type, position, rotation: [0, 0, 0], scale: [1, 1, 1], timestamp: 0 });
+    return count + violations;
+  }, 0);
+}
+
+/**
+ * Walks outward from the settlement centroid on snapped rings and returns the
+ * first anchor where the whole blueprint fits and satisfies the directives,
+ * preferring low-variance ground. Under soft directives a fitting but
+ * non-compliant anchor is used when nothing better exists.
+ */
+function findAnchor(template: Blueprint, objects: WorldObject[], terrain: DecisionContext['terrainHeightMap'], mode: DirectiveMode): [number, number] | null {
+  const cx = objects.length ? snap(objects.reduce((s, o) => s + o.position[0], 0) / objects.length) : 0;
+  const cz = objects.length ? snap(objects.reduce((s, o) => s + o.position[2], 0) / objects.length) : 0;
+  const occupancy = createOccupancyIndex(objects);
+  let compliant: [number, number] | null = null;
+  let fallback: [number, number] | null = null;
+
+  for (let ring = 0; ring <= 20; ring++) {
+    const radius = ring * GRID_SNAP;
+    const samples = ring === 0 ? 1 : ring * 8;
+    for (let i = 0; i < samples; i++) {
+      const angle = (i / samples) * Math.PI * 2;
+      const ax = snap(cx + Math.cos(angle) * radius);
+      const az = snap(cz + Math.sin(angle) * radius);
+      const fits = template.steps.every(s => isClear(s, ax + s.offset[0], az + s.offset[1], occupancy));
+      if (!fits) continue;
+      if (!fallback) fallback = [ax, az];
+      if (templateViolations(template, ax, az, objects, terrain) > 0) continue;
+      if (slopeVariance(ax, az, terrain) < MAX_SLOPE_VARIANCE) return [ax, az];
+      if (!compliant) compliant = [ax, az];
+    }
+  }
+  return compliant ?? (mode === 'soft' ? fallback : null);
+}
+
+function placeStep(step: PlanStep, template: Blueprint, reasoningSteps: string[], plan?: ConstructionPlan): AIActionResponse {
+  return {
+    action: 'PLACE',
+    objectType: step.type,
+    position: step.position,
+    reason: `Executing "${step.label}" for ${template.objective}.`,
+    reasoningSteps,
+    learningNote: template.note,
+    knowledgeCategory: template.category,
+    taskLabel: step.label,
+    plan
+  };
+}
+
+// Stays on (or walks back to) a build site until the structure is finished.
+function superviseBuild(building: WorldObject, template: Blueprint, avatar: [number, number, number], route: [number, number, number][] = []): AIActionResponse {
+  const progress = `${Math.round(building.buildProgress! * 100)}%`;
+  const common = { learningNote: template.note, knowledgeCategory: template.category };
+  const destination = route[route.length - 1];
+  if (destination && isOnSite(building, destination)) {
+    return {
+      ...common,
+      action: 'WAIT',
+      reason: `En route to ${building.type} ${building.id} (${progress}).`,
+      reasoningSteps: [`Build ${building.id} at ${progress}`, `${route.length} waypoint(s) to the site`],
+      taskLabel: 'Travelling to Site'
+    };
+  }
+  if (isOnSite(building, avatar)) {
+    return {
+      ...common,
+      action: 'WAIT',
+      reason: `Holding position while ${building.type} ${building.id} is built (${progress}).`,
+      reasoningSteps: [`Build ${building.id} at ${progress}`, 'Avatar on site, continuing synthesis'],
+      taskLabel: 'Supervising Construction'
+    };
+  }
+  return {
+    ...common,
+    action: 'MOVE',
+    position: building.position,
+    reason: `Returning to unfinished ${building.type} ${building.id} (${progress}).`,
+    reasoningSteps: [`Build ${building.id} stalled at ${progress}`, `Coordinate Snapping to [${building.position[0].toFixed(1)}, ${building.position[2].toFixed(1)}]`],
+    taskLabel: 'Returning to Site'
+  };
+}
+
+function maintain(action: 'REPAIR' | 'UPGRADE', target: WorldObject, template: Blueprint, reasoningSteps: string[]): AIActionResponse {
+  return {
+    action,
+    targetId: target.id,
+    reason: action === 'REPAIR'
+      ? `${target.type} ${target.id} is down to ${Math.round(healthOf(target))}% health.`
+      : `Upgrading ${target.type} ${target.id} to level ${levelOf(target) + 1} to cover the shortfall.`,
+    reasoningSteps,
+    learningNote: action === 'REPAIR' ? 'Structural Upkeep: Repairs outlast tremor-prone foundations.' : template.note,
+    knowledgeCategory: action === 'REPAIR' ? 'Architecture' : template.category,
+    taskLabel: action === 'REPAIR' ? 'Structural Repair' : 'Generator Upgrade'
+  };
+}
+
+// A finished generator of the kind a relief blueprint would build, cheapest to upgrade first.
+function upgradeableGenerator(template: Blueprint, objects: WorldObject[], materials: number): WorldObject | undefined {
+  return objects
+    .filter(o => !isUnderConstruction(o) && healthOf(o) > 0 && levelOf(o) < MAX_LEVEL && template.steps.some(s => s.type === o.type))
+    .filter(o => upgradeCost(o) <= materials)
+    .sort((a, b) => upgradeCost(a) - upgradeCost(b))[0];
+}
+
+/**
+ * Deterministic offline planner. Finishes builds and maintenance under way,
+ * repairs badly damaged structures, then continues the active plan when there
+ * is one. Otherwise it lays out the blueprint for the current goal at the
+ * nearest free, low-variance anchor; when the grid is short it upgrades an
+ * existing generator if materials allow, or builds a new one. Never touches
+ * the network.
+ */
+export function planNextAction(context: DecisionContext): AIActionResponse {
+  const { activePlan } = context;
+  const library = availableBlueprints(context.blueprints ?? [], context.progression.unlockedBlueprints);
+  const goalTemplate = blueprintForGoal(context.currentGoal, library);
+  const current = activePlan?.steps[activePlan.currentStepIndex];
+
+  const building = context.worldObjects.find(o => o.id === current?.objectId && isUnderConstruction(o));
+  if (building) return superviseBuild(building, goalTemplate, context.avatarPosition ?? [0, 0, 0], context.agents?.[0]?.path);
+
+  const order = context.agents?.[0]?.order;
+  if (order && context.worldObjects.some(o => o.id === order.targetId)) {
+    return {
+      action: 'WAIT',
+      reason: `Carrying out ${order.action} on ${order.targetId}.`,
+      reasoningSteps: [`${order.action} order for ${order.targetId} in progress`],
+      learningNote: 'Structural Upkeep: Repairs outlast tremor-prone foundations.',
+      knowledgeCategory: 'Architecture',
+      taskLabel: 'Maintenance'
+    };
+  }
+
+  const worst = context.worldObjects
+    .filter(o => !isUnderConstruction(o) && healthOf(o) < REPAIR_THRESHOLD)
+    .sort((a, b) => healthOf(a) - healthOf(b))[0];
+  if (worst) {
+    return maintain('REPAIR', worst, goalTemplate, [
+      `Integrity scan: ${worst.type} ${worst.id} at ${Math.round(healthOf(worst))}%`,
+      `Seismic Resonance damage below ${REPAIR_THRESHOLD}% threshold`
+    ]);
+  }
+
+  // Rejected steps have already been failed by the engine, so the current step is still open.
+  if (activePlan && current) {
+    const step = activePlan.steps[activePlan.currentStepIndex];
+    return placeStep(step, goalTemplate, [
+      `Resuming plan ${activePlan.planId}`,
+      `Step ${activePlan.currentStepIndex + 1}/${activePlan.steps.length}: ${step.label}`,
+      `Coordinate Snapping to [${step.position[0].toFixed(1)}, ${step.position[2].toFixed(1)}]`
+    ]);
+  }
+
+  const shortage = shortestResource(context.economy);
+  const relief = shortage ? RELIEF_BLUEPRINTS[shortage] : undefined;
+  const generator = relief && upgradeableGenerator(relief, context.worldObjects, context.economy?.resources.materials.stored ?? 0);
+  if (generator) {
+    return maintain('UPGRADE', generator, relief!, [
+      `Grid audit: ${shortage} demand outpaces supply`,
+      `${generator.type} ${generator.id} upgrade costs ${upgradeCost(generator)} materials`
+    ]);
+  }
+  const template = relief || goalTemplate;
+  const anchor = findAnchor(template, context.worldObjects, context.terrainHeightMap, context.directiveMode ?? 'soft');
+  if (!anchor) {
+    return {
+      action: 'WAIT',
+      reason: `No free sector fits the ${template.name} blueprint.`,
+      reasoningSteps: ["Scanning sector rings", "No clearance for template footprint"],
+      learningNote: "Sector Saturation: Local planner found no free anchor.",
+      knowledgeCategory: 'Architecture',
+      taskLabel: "Sector Saturated"
+    };
+  }
+
+  const plan = instantiateBlueprint(template, anchor, context.terrainHeightMap, `local-${context.worldObjects.length}-${anchor[0]}_${anchor[1]}`);
+  return placeStep(plan.steps[0], template, [
+    shortage ? `Grid audit: ${shortage} demand outpaces supply` : `Goal "${context.currentGoal}" mapped to ${template.name} blueprint`,
+    `Thermal Flux survey: anchor [${anchor[0]}, ${anchor[1]}] selected`,
+    `Seismic Resonance check: variance ${slopeVariance(anchor[0], anchor[1], context.terrainHeightMap).toFixed(2)}m`,
+    `Queued ${plan.steps.length} synthesis steps`
+  ], plan);
+}
+
+export const localPlannerProvider: DecisionProvider = {
+  id: 'local',
+  label: 'local://heuristic-planner',
+  decide: async (context, options) => {
+    options?.signal?.throwIfAborted();
+    const decision = planNextAction(context);
+    decision.reasoningSteps.forEach(text => options?.onEvent?.({ type: 'step', text }));
+    return decision;
+  }
+};
@@ -0,0 +1,49 @@
+import { MaintenanceAction, StructureCondition, WorldObject } from "../types";
+import { BUILD_SPECS, isUnderConstruction } from "./construction";
+
+export const MAINTENANCE_ACTIONS: MaintenanceAction[] = ['REMOVE', 'REPAIR', 'UPGRADE'];
+export const MAX_LEVEL = 3;
+// Health every finished structure loses per tick.
+export const WEAR_PER_TICK = 0.25;
+// Health restored per tick of repair work.
+export const REPAIR_PER_TICK = 25;
+const HEALTH_PER_MATERIAL = 10;
+
+export const isMaintenanceAction = (action: string): action is MaintenanceAction =>
+  MAINTENANCE_ACTIONS.includes(action as MaintenanceAction);
+
+export const healthOf = (o: WorldObject) => o.health ?? 100;
+export const levelOf = (o: WorldObject) => o.level ?? 1;
+export const conditionOf = (o: WorldObject): StructureCondition => o.condition ?? 'sound';
+
+export function conditionFor(health: number): StructureCondition {
+  if (health <= 0) return 'wrecked';
+  if (health < 40) return 'damaged';
+  if (health < 75) return 'worn';
+  return 'sound';
+}
+
+/** Sets health, clamped to 0..100, and the condition that goes with it. */
+export function withHealth(o: WorldObject, health: number): WorldObject {
+  const clamped = Math.max(0, Math.min(100, health));
+  return { ...o, health: clamped, condition: conditionFor(clamped) };
+}
+
+/** Ages every finished, standing structure by `amount` health. */
+export const wear = (objects: WorldObject[], amount = WEAR_PER_TICK) =>
+  objects.map(o => isUnderConstruction(o) || healthOf(o) <= 0 ? o : withHealth(o, healthOf(o) - amount));
+
+export const repairCost = (gain: number) => Math.ceil(gain / HEALTH_PER_MATERIAL);
+export const upgradeCost = (o: WorldObject) => BUILD_SPECS[o.type].materials * levelOf(o);
+// Half of what went into the structure comes back when it is taken down.
+export const salvageValue = (o: WorldObject) =>
+  Math.floor((BUILD_SPECS[o.type].materials * (o.buildProgress ?? 1) * levelOf(o)) / 2);
+
+/** Why `action` cannot be carried out on `o`, or null when it can. */
+export function maintenanceBlocker(action: MaintenanceAction, o: WorldObject): string | null {
+  if (action === 'REMOVE') return null;
+  if (isUnderConstruction(o)) return 'still under construction';
+  if (action === 'REPAIR' && healthOf(o) >= 100) return 'already at full health';
+  if (action === 'UPGRADE' && levelOf(o) >= MAX_LEVEL) return `already at level ${MAX_LEVEL}`;
+  return null;
+}
@@ -0,0 +1,172 @@
+import { WorldObject } from "../types";
+import { GRID_SNAP, footprintOf } from "./occupancy";
+import { TERRAIN_HALF } from "./terrain";
+
+type TerrainHeight = (x: number, z: number) => number;
+type Point = [number, number, number];
+
+// Metres an agent walks per tick; travel time is path length over this.
+export const AGENT_SPEED = 7.5;
+// Steepest height change an agent will take between neighbouring nodes.
+export const MAX_CLIMB = 0.6;
+// Extra cost per metre climbed or descended, so gentle detours win over ridges.
+const SLOPE_PENALTY = 4;
+// Half-width of an agent: nodes closer than this to a footprint are blocked.
+const CLEARANCE = 0.4;
+const RADIUS = Math.floor(TERRAIN_HALF / GRID_SNAP);
+const SIDE = RADIUS * 2 + 1;
+const NEIGHBOURS: [number, number][] = [[1, 0], [-1, 0], [0, 1], [0, -1], [1, 1], [1, -1], [-1, 1], [-1, -1]];
+
+/** Walkable nodes on the snap grid: one per `GRID_SNAP` metres across the terrain. */
+export interface NavGrid {
+  blocked: Uint8Array;
+  height: TerrainHeight;
+}
+
+const nodeIndex = (i: number, j: number) => (i + RADIUS) * SIDE + (j + RADIUS);
+const inGrid = (i: number, j: number) => Math.abs(i) <= RADIUS && Math.abs(j) <= RADIUS;
+const toNode = (v: number) => Math.max(-RADIUS, Math.min(RADIUS, Math.round(v / GRID_SNAP)));
+// Node indices strictly inside [min, max]; nodes on the edge stay walkable.
+const nodesWithin = (min: number, max: number) => {
+  const nodes: number[] = [];
+  for (let i = Math.floor(min / GRID_SNAP + 1e-6) + 1; i * GRID_SNAP < max - 1e-6; i++) nodes.push(i);
+  return nodes;
+};
+
+export function createNavGrid(objects: WorldObject[], height: TerrainHeight): NavGrid {
+  const blocked = new Uint8Array(SIDE * SIDE);
+  objects.forEach(o => {
+    const fp = footprintOf(o);
+    nodesWithin(fp.minX - CLEARANCE, fp.maxX + CLEARANCE).forEach(i =>
+      nodesWithin(fp.minZ - CLEARANCE, fp.maxZ + CLEARANCE).forEach(j => {
+        if (inGrid(i, j)) blocked[nodeIndex(i, j)] = 1;
+      }));
+  });
+  return { blocked, height };
+}
+
+// Binary min-heap of node indices keyed by their f-score.
+function createQueue(score: Float64Array) {
+  const heap: number[] = [];
+  const push = (n: number) => {
+    heap.push(n);
+    for (let c = heap.length - 1; c > 0;) {
+      const p = (c - 1) >> 1;
+      if (score[heap[p]] <= score[heap[c]]) break;
+      [heap[p], heap[c]] = [heap[c], heap[p]];
+      c = p;
+    }
+  };
+  const pop = (): number => {
+    const top = heap[0];
+    const last = heap.pop()!;
+    if (heap.length > 0) {
+      heap[0] = last;
+      for (let p = 0; ;) {
+        const l = p * 2 + 1, r = l + 1;
+        let m = p;
+        if (l < heap.length && score[heap[l]] < score[heap[m]]) m = l;
+        if (r < heap.length && score[heap[r]] < score[heap[m]]) m = r;
+        if (m === p) break;
+        [heap[p], heap[m]] = [heap[m], heap[p]];
+        p = m;
+      }
+    }
+    return top;
+  };
+  return { push, pop, get size() { return heap.length; } };
+}
+
+/**
+ * A* from `from` to any walkable node within `arriveWithin` metres of `to`
+ * (or the node `to` snaps onto). Diagonal moves may not cut past blocked
+ * nodes, and steps climbing more than `MAX_CLIMB` are refused. An agent
+ * standing on a blocked node may step off it in any direction. Returns the
+ * waypoints to walk, an empty path when already there, or undefined when no
+ * route exists.
+ */
+export function findPath(grid: NavGrid, from: Point, to: Point, arriveWithin = 0): Point[] | undefined {
+  const [gi, gj] = [toNode(to[0]), toNode(to[2])];
+  const node = (n: number): [number, number] => [Math.floor(n / SIDE) - RADIUS, (n % SIDE) - RADIUS];
+  const point = (i: number, j: number): Point => [i * GRID_SNAP, grid.height(i * GRID_SNAP, j * GRID_SNAP), j * GRID_SNAP];
+  const remaining = (i: number, j: number) => Math.hypot(i * GRID_SNAP - to[0], j * GRID_SNAP - to[2]);
+  const isGoal = (i: number, j: number) => !grid.blocked[nodeIndex(i, j)] && ((i === gi && j === gj) || remaining(i, j) <= arriveWithin);
+
+  if (Math.hypot(from[0] - to[0], from[2] - to[2]) <= arriveWithin) return [];
+
+  const start = nodeIndex(toNode(from[0]), toNode(from[2]));
+  const cost = new Float64Array(SIDE * SIDE).fill(Infinity);
+  const score = new Float64Array(SIDE * SIDE).fill(Infinity);
+  const cameFrom = new Int32Array(SIDE * SIDE).fill(-1);
+  const closed = new Uint8Array(SIDE * SIDE);
+  const open = createQueue(score);
+  const [si, sj] = node(start);
+  cost[start] = 0;
+  score[start] = Math.max(0, remaining(si, sj) - arriveWithin);
+  open.push(start);
+
+  while (open.size > 0) {
+    const current = open.pop();
+    if (closed[current]) continue;
+    closed[current] = 1;
+    const [ci, cj] = node(current);
+    if (isGoal(ci, cj)) {
+      const path: Point[] = [];
+      for (let n = current; n !== -1; n = cameFrom[n]) path.unshift(point(...node(n)));
+      const [sx, , sz] = path[0];
+      return Math.hypot(sx - from[0], sz - from[2]) < 1e-6 ? path.slice(1) : path;
+    }
+    const h = grid.height(ci * GRID_SNAP, cj * GRID_SNAP);
+    for (const [di, dj] of NEIGHBOURS) {
+      const [ni, nj] = [ci + di, cj + dj];
+      if (!inGrid(ni, nj)) continue;
+      const n = nodeIndex(ni, nj);
+      if (closed[n] || (grid.blocked[n] && current !== start)) continue;
+      if (current !== start && di !== 0 && dj !== 0 && (grid.blocked[nodeIndex(ci + di, cj)] || grid.blocked[nodeIndex(ci, cj + dj)])) continue;
+      const climb = Math.abs(grid.height(ni * GRID_SNAP, nj * GRID_SNAP) - h);
+      if (climb > MAX_CLIMB) continue;
+      const g = cost[current] + Math.hypot(di, dj) * GRID_SNAP + climb * SLOPE_PENALTY;
+      if (g >= cost[n]) continue;
+      cost[n] = g;
+      cameFrom[n] = current;
+      score[n] = g + Math.max(0, remaining(ni, nj) - arriveWithin);
+      open.push(n);
+    }
+  }
+  return undefined;
+}
+
+export const pathLength = (from: Point, path: Point[]) =>
+  path.reduce((acc, p, i) => {
+    const prev = i === 0 ? from : path[i - 1];
+    return acc + Math.hypot(p[0] - prev[0], p[2] - prev[2]);
+  }, 0);
+
+export const travelTicks = (from: Point, path: Point[]) => Math.ceil(pathLength(from, path) / AGENT_SPEED);
+
+/**
+ * Walks up to `distance` metres along `path`. Returns where the walker ends
+ * up, the waypoints still ahead, and the points passed on the way.
+ */
+export function walkPath(from: Point, path: Point[], distance: number): { position: Point; path: Point[]; trail: Point[] } {
+  let position = from;
+  let budget = distance;
+  const ahead = [...path];
+  const trail: Point[] = [];
+  while (ahead.length > 0 && budget > 0) {
+    const next = ahead[0];
+    const leg = Math.hypot(next[0] - position[0], next[2] - position[2]);
+    if (leg <= budget) {
+      budget -= leg;
+      position = next;
+      trail.push(next);
+      ahead.shift();
+      continue;
+    }
+    const t = budget / leg;
+    position = [position[0] + (next[0] - position[0]) * t, position[1] + (next[1] - position[1]) * t, position[2] + (next[2] - position[2]) * t];
+    trail.push(position);
+    budget = 0;
+  }
+  return { position, path: ahead, trail };
+}
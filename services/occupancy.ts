@@ -0,0 +1,143 @@
+import { PlacementOutcome, WorldObject, WorldObjectType } from "../types";
+import { TERRAIN_HALF, TERRAIN_SIZE } from "./terrain";
+
+// Ground footprint [width along x, depth along z] of each model in services/assetModels.ts.
+export const FOOTPRINTS: Record<WorldObjectType, [number, number]> = {
+  modular_unit: [2.5, 2.5],
+  wall: [2.2, 0.3],
+  solar_panel: [2, 1.5],
+  life_support_hub: [4.2, 4.2],
+  data_spire: [1.7, 1.7],
+  water_collector: [1.6, 1.6],
+  roof: [2.5, 2.5],
+  door: [1.4, 0.35],
+  crop: [2, 2],
+  tree: [1.6, 1.6],
+  well: [1.6, 1.6],
+  fence: [2.4, 0.12]
+};
+
+export const GRID_SNAP = 2.5;
+const BUCKET_SIZE = 5;
+const MAX_NUDGE_RINGS = 4;
+// Edges may touch: modular units tile edge to edge on the snap grid.
+const EPSILON = 1e-3;
+
+export interface Footprint {
+  minX: number;
+  maxX: number;
+  minZ: number;
+  maxZ: number;
+}
+
+export const snapToGrid = (v: number) => Math.round(v / GRID_SNAP) * GRID_SNAP;
+
+/** Axis-aligned bounds of a type's footprint centred on (x, z), turned by `yaw` radians. */
+export function footprintAt(type: WorldObjectType, x: number, z: number, yaw = 0): Footprint {
+  const [w, d] = FOOTPRINTS[type];
+  const cos = Math.abs(Math.cos(yaw));
+  const sin = Math.abs(Math.sin(yaw));
+  const halfX = (w * cos + d * sin) / 2;
+  const halfZ = (w * sin + d * cos) / 2;
+  return { minX: x - halfX, maxX: x + halfX, minZ: z - halfZ, maxZ: z + halfZ };
+}
+
+export const footprintOf = (o: WorldObject) => footprintAt(o.type, o.position[0], o.position[2], o.rotation[1]);
+
+const overlaps = (a: Footprint, b: Footprint) =>
+  a.minX < b.maxX - EPSILON && b.minX < a.maxX - EPSILON && a.minZ < b.maxZ - EPSILON && b.minZ < a.maxZ - EPSILON;
+
+export const isInBounds = (fp: Footprint) =>
+  fp.minX >= -TERRAIN_HALF && fp.maxX <= TERRAIN_HALF && fp.minZ >= -TERRAIN_HALF && fp.maxZ <= TERRAIN_HALF;
+
+export interface OccupancyIndex {
+  collisions: (type: WorldObjectType, x: number, z: number, yaw?: number) => WorldObject[];
+  fits: (type: WorldObjectType, x: number, z: number, yaw?: number) => boolean;
+  add: (object: WorldObject) => void;
+}
+
+/**
+ * Spatial hash over object footprints. Each object is filed under every
+ * bucket its footprint touches, so a query only tests nearby objects.
+ */
+export function createOccupancyIndex(objects: WorldObject[] = []): OccupancyIndex {
+  const buckets = new Map<string, WorldObject[]>();
+
+  const bucketKeys = (fp: Footprint): string[] => {
+    const keys: string[] = [];
+    for (let bx = Math.floor(fp.minX / BUCKET_SIZE); bx <= Math.floor(fp.maxX / BUCKET_SIZE); bx++) {
+      for (let bz = Math.floor(fp.minZ / BUCKET_SIZE); bz <= Math.floor(fp.maxZ / BUCKET_SIZE); bz++) {
+        keys.push(`${bx}:${bz}`);
+      }
+    }
+    return keys;
+  };
+
+  const add = (object: WorldObject) => {
+    bucketKeys(footprintOf(object)).forEach(key => {
+      const bucket = buckets.get(key);
+      if (bucket) bucket.push(object);
+      else buckets.set(key, [object]);
+    });
+  };
+
+  const collisions = (type: WorldObjectType, x: number, z: number, yaw = 0): WorldObject[] => {
+    const fp = footprintAt(type, x, z, yaw);
+    const hits = new Set<WorldObject>();
+    bucketKeys(fp).forEach(key => buckets.get(key)?.forEach(o => {
+      if (overlaps(fp, footprintOf(o))) hits.add(o);
+    }));
+    return [...hits];
+  };
+
+  const fits = (type: WorldObjectType, x: number, z: number, yaw = 0) =>
+    isInBounds(footprintAt(type, x, z, yaw)) && collisions(type, x, z, yaw).length === 0;
+
+  objects.forEach(add);
+  return { collisions, fits, add };
+}
+
+function rejectionReason(index: OccupancyIndex, type: WorldObjectType, x: number, z: number, yaw: number): string {
+  if (!isInBounds(footprintAt(type, x, z, yaw))) return `outside the ${TERRAIN_SIZE}m terrain`;
+  return `overlaps ${index.collisions(type, x, z, yaw).map(o => o.id).join(', ')}`;
+}
+
+/**
+ * Accepts a placement that is in bounds and clear. Otherwise moves it to the
+ * nearest free snapped cell within a few grid steps, or rejects it when none
+ * is free.
+ */
+export function resolvePlacement(index: OccupancyIndex, type: WorldObjectType, x: number, z: number, yaw = 0): PlacementOutcome {
+  const requested: [number, number] = [x, z];
+  if (index.fits(type, x, z, yaw)) return { status: 'accepted', type, requested, resolved: requested };
+
+  const reason = rejectionReason(index, type, x, z, yaw);
+  const cx = snapToGrid(Math.max(-TERRAIN_HALF, Math.min(TERRAIN_HALF, x)));
+  const cz = snapToGrid(Math.max(-TERRAIN_HALF, Math.min(TERRAIN_HALF, z)));
+  const candidates: [number, number][] = [];
+  for (let dx = -MAX_NUDGE_RINGS; dx <= MAX_NUDGE_RINGS; dx++) {
+    for (let dz = -MAX_NUDGE_RINGS; dz <= MAX_NUDGE_RINGS; dz++) {
+      candidates.push([cx + dx * GRID_SNAP, cz + dz * GRID_SNAP]);
+    }
+  }
+  const nearest = candidates
+    .map(c => ({ cell: c, distance: Math.hypot(c[0] - x, c[1] - z) }))
+    .sort((a, b) => a.distance - b.distance)
+    .find(c => index.fits(type, c.cell[0], c.cell[1], yaw));
+
+  if (!nearest) return { status: 'rejected', type, requested, reason: `${reason}; no free cell within ${MAX_NUDGE_RINGS * GRID_SNAP}m` };
+  return { status: 'nudged', type, requested, resolved: nearest.cell, reason };
+}
+
+const coords = ([x, z]: [number, number]) => `[${x.toFixed(1)}, ${z.toFixed(1)}]`;
+
+export function describePlacement(outcome: PlacementOutcome): string {
+  switch (outcome.status) {
+    case 'accepted':
+      return `${outcome.type} accepted at ${coords(outcome.requested)}`;
+    case 'nudged':
+      return `${outcome.type} nudged from ${coords(outcome.requested)} to ${coords(outcome.resolved!)} (${outcome.reason})`;
+    case 'rejected':
+      return `${outcome.type} rejected at ${coords(outcome.requested)} (${outcome.reason})`;
+  }
+}
@@ -0,0 +1,112 @@
+import { EndpointConfig } from "./endpointSettings";
+import { withRequestTimeout } from "./endpointHealth";
+import { DecisionOptions } from "./aiLogic";
+import { createPartialStepReader, readLines, sseData } from "./decisionStream";
+
+// Local models have no server-side schema, so the expected shape is spelled out.
+export const RESPONSE_SCHEMA_HINT = `
+    RESPONSE FORMAT:
+    Reply with a single JSON object and nothing else:
+    {
+      "action": "PLACE" | "MOVE" | "WAIT" | "REMOVE" | "REPAIR" | "UPGRADE",
+      "objectType": "wall" | "roof" | "door" | "crop" | "tree" | "well" | "fence" | "modular_unit" | "solar_panel" | "water_collector" | "data_spire" | "life_support_hub",
+      "position": [x, y, z],
+      "targetId": string,
+      "blueprint": string,
+      "reason": string,
+      "reasoningSteps": string[],
+      "learningNote": "Title: insight",
+      "knowledgeCategory": "Infrastructure" | "Energy" | "Environment" | "Architecture" | "Synthesis",
+      "taskLabel": string,
+      "plan": { "planId": string, "objective": string, "currentStepIndex": 0, "steps": [{ "label": string, "type": string, "position": [x, y, z], "status": "pending", "dependsOn": number[] }] }
+    }
+    "plan" and "blueprint" are optional; "dependsOn" lists indices of earlier steps. "targetId" is the structure id for REMOVE, REPAIR and UPGRADE. x and z must lie within -60..60.
+  `;
+
+export function chatCompletionsUrl(baseUrl: string): string {
+  const trimmed = baseUrl.replace(/\/+$/, '');
+  if (trimmed.endsWith('/chat/completions')) return trimmed;
+  if (trimmed.endsWith('/v1')) return `${trimmed}/chat/completions`;
+  return `${trimmed}/v1/chat/completions`;
+}
+
+/**
+ * Pulls the JSON object out of a chat reply. Models often wrap it in a code
+ * fence or add a sentence around it, so everything outside the outermost
+ * braces is ignored.
+ */
+export function extractJsonObject(content: string): unknown {
+  const start = content.indexOf('{');
+  const end = content.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    throw new Error('Chat reply did not contain a JSON object');
+  }
+  return JSON.parse(content.slice(start, end + 1));
+}
+
+/**
+ * Sends the prompt as a chat completion. With `onEvent` set the completion is
+ * streamed: every content delta is forwarded as a token and reasoning steps
+ * are emitted as soon as each one closes inside the partial JSON.
+ */
+export function requestChatCompletion(
+  endpoint: EndpointConfig,
+  messages: { systemInstruction: string; prompt: string },
+  timeoutMs: number,
+  { signal, onEvent }: DecisionOptions = {}
+): Promise<unknown> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (endpoint.apiKey) headers.Authorization = `Bearer ${endpoint.apiKey}`;
+
+  return withRequestTimeout(timeoutMs, signal, async (requestSignal, touch) => {
+    const response = await fetch(chatCompletionsUrl(endpoint.url), {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: endpoint.model || 'default',
+        temperature: 0.4,
+        stream: !!onEvent,
+        response_format: { type: 'json_object' },
+        messages: [
+          { role: 'system', content: `${messages.systemInstruction}\n${RESPONSE_SCHEMA_HINT}` },
+          { role: 'user', content: messages.prompt }
+        ]
+      }),
+      signal: requestSignal
+    });
+
+    if (!response.ok) {
+      throw new Error(`Chat completion failed: ${response.status} ${response.statusText}`);
+    }
+
+    if (!onEvent) {
+      const data = await response.json();
+      const content = data?.choices?.[0]?.message?.content;
+      if (typeof content !== 'string') {
+        throw new Error('Chat completion returned no message content');
+      }
+      return extractJsonObject(content);
+    }
+
+    let content = '';
+    const readSteps = createPartialStepReader();
+    await readLines(response, line => {
+      const data = sseData(line);
+      if (!data) return;
+      // Every field is optional-chained and the delta type-checked, so any parsed value is safe to read.
+      let chunk: { choices?: { delta?: { content?: unknown } }[] } | null;
+      try {
+        chunk = JSON.parse(data);
+      } catch {
+        console.warn('Skipping unparseable stream line:', data);
+        return;
+      }
+      const delta = chunk?.choices?.[0]?.delta?.content;
+      if (typeof delta !== 'string' || !delta) return;
+      content += delta;
+      onEvent({ type: 'token', text: delta });
+      readSteps(content).forEach(text => onEvent({ type: 'step', text }));
+    }, touch);
+    return extractJsonObject(content);
+  });
+}
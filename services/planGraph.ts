@@ -0,0 +1,77 @@
+import { ConstructionPlan, PlanOutcome, PlanRecord, PlanStep } from "../types";
+
+export const PLAN_HISTORY_LIMIT = 12;
+export const PLAN_OUTCOMES: PlanOutcome[] = ['completed', 'failed', 'aborted', 'replaced'];
+
+export const isSettled = (s: PlanStep) => s.status === 'completed' || s.status === 'failed' || s.status === 'skipped';
+
+export const isPlanSettled = (plan: ConstructionPlan) => plan.steps.every(isSettled);
+
+// Dependencies of a step that have not completed yet.
+export const unmetDependencies = (steps: PlanStep[], idx: number) =>
+  (steps[idx]?.dependsOn ?? []).filter(d => steps[d]?.status !== 'completed');
+
+// A pending step whose dependencies have all completed.
+export const isStepReady = (steps: PlanStep[], idx: number) =>
+  steps[idx]?.status === 'pending' && unmetDependencies(steps, idx).length === 0;
+
+export const stepLabel = (idx: number) => `L_${idx.toString().padStart(2, '0')}`;
+
+/**
+ * The step the lead should take next: a ready step nobody has claimed, else
+ * one already being built, else any other ready or active step. A pending
+ * step still waiting on a dependency is never picked. Returns -1 once every
+ * step is settled.
+ */
+export function nextStepIndex(steps: PlanStep[]): number {
+  const ready = steps.findIndex((s, idx) => isStepReady(steps, idx) && !s.assignee);
+  if (ready !== -1) return ready;
+  const building = steps.findIndex(s => s.status === 'active' && s.objectId);
+  if (building !== -1) return building;
+  return steps.findIndex((s, idx) => s.status === 'active' || isStepReady(steps, idx));
+}
+
+// Points the plan at its next step, marking that step active.
+export function advancePlan(plan: ConstructionPlan): ConstructionPlan {
+  const next = nextStepIndex(plan.steps);
+  if (next === -1) return plan;
+  const steps = plan.steps.map((s, idx) => idx === next && s.status === 'pending' ? { ...s, status: 'active' as const } : s);
+  return { ...plan, steps, currentStepIndex: next };
+}
+
+/**
+ * Marks a step failed and skips every step that depends on it, directly or
+ * through another skipped step, then moves the plan on.
+ */
+export function failStep(plan: ConstructionPlan, idx: number, reason: string): { plan: ConstructionPlan; skipped: number[] } {
+  const steps = plan.steps.map(s => ({ ...s }));
+  steps[idx] = { ...steps[idx], status: 'failed', reason, assignee: undefined };
+  const skipped: number[] = [];
+  steps.forEach((s, i) => {
+    if (isSettled(s)) return;
+    const blocker = (s.dependsOn ?? []).find(d => steps[d]?.status === 'failed' || steps[d]?.status === 'skipped');
+    if (blocker === undefined) return;
+    steps[i] = { ...s, status: 'skipped', reason: `${stepLabel(blocker)} ${steps[blocker].status}`, assignee: undefined };
+    skipped.push(i);
+  });
+  return { plan: advancePlan({ ...plan, steps }), skipped };
+}
+
+export const planOutcome = (plan: ConstructionPlan): PlanOutcome =>
+  plan.steps.some(s => s.status === 'failed') ? 'failed' : 'completed';
+
+export const countSteps = (plan: ConstructionPlan, status: PlanStep['status']) => plan.steps.filter(s => s.status === status).length;
+
+/** Step indices grouped by dependency depth: level 0 needs nothing, level n waits on level n-1. */
+export function dependencyLevels(plan: ConstructionPlan): number[][] {
+  const depth: number[] = [];
+  plan.steps.forEach((s, idx) => {
+    depth[idx] = Math.max(-1, ...(s.dependsOn ?? []).filter(d => d < idx).map(d => depth[d])) + 1;
+  });
+  const levels: number[][] = [];
+  depth.forEach((d, idx) => { (levels[d] ??= []).push(idx); });
+  return levels;
+}
+
+export const archivePlan = (history: PlanRecord[], record: PlanRecord) =>
+  [...history, record].slice(-PLAN_HISTORY_LIMIT);
@@ -0,0 +1,121 @@
+import { ProgressionStats, SettlementTier, WorldObject, WorldObjectType } from "../types";
+import { isUnderConstruction } from "./construction";
+import { healthOf } from "./maintenance";
+import definition from "./progression.json";
+
+// Counts a settlement must reach; every listed count must be met.
+export interface Requirement {
+  structures?: number;
+  types?: Partial<Record<WorldObjectType, number>>;
+}
+
+export interface ProgressionDefinition {
+  // Lowest first; the settlement holds the highest tier whose requirement it meets.
+  tiers: { name: SettlementTier; requires: Requirement }[];
+  // In order; the goal advances to the furthest one reached without skipping a requirement.
+  goals: { title: string; requires: Requirement }[];
+  // Blueprints stay unlocked once their requirement has been met.
+  unlocks: { blueprint: string; requires: Requirement }[];
+  complexity: { base: number; perTier: number; perUnlock: number };
+}
+
+const TIER_NAMES: SettlementTier[] = ['Outpost', 'Colony', 'Settlement', 'Citadel'];
+
+const isRequirement = (v: unknown): v is Requirement => {
+  if (typeof v !== 'object' || v === null) return false;
+  const { structures, types } = v as Requirement;
+  return (structures === undefined || typeof structures === 'number')
+    && (types === undefined || (typeof types === 'object' && Object.values(types).every(n => typeof n === 'number')));
+};
+
+/** Checks the shape of a progression definition, throwing on the first problem. */
+export function parseProgression(raw: unknown): ProgressionDefinition {
+  const def = raw as ProgressionDefinition;
+  if (!Array.isArray(def?.tiers) || def.tiers.length === 0) throw new Error('progression needs at least one tier');
+  if (!Array.isArray(def.goals) || def.goals.length === 0) throw new Error('progression needs at least one goal');
+  if (!Array.isArray(def.unlocks)) throw new Error('progression unlocks must be an array');
+  def.tiers.forEach((t, i) => {
+    if (!TIER_NAMES.includes(t.name)) throw new Error(`tiers[${i}].name "${t.name}" is not a settlement tier`);
+    if (!isRequirement(t.requires)) throw new Error(`tiers[${i}].requires is malformed`);
+  });
+  def.goals.forEach((g, i) => {
+    if (typeof g.title !== 'string' || !isRequirement(g.requires)) throw new Error(`goals[${i}] is malformed`);
+  });
+  def.unlocks.forEach((u, i) => {
+    if (typeof u.blueprint !== 'string' || !isRequirement(u.requires)) throw new Error(`unlocks[${i}] is malformed`);
+  });
+  if (typeof def.complexity?.base !== 'number') throw new Error('progression complexity is malformed');
+  return def;
+}
+
+export const PROGRESSION = parseProgression(definition);
+
+/** Finished structures that still stand and work, by type; these are what progression counts. */
+export function composition(objects: WorldObject[]): { total: number; types: Partial<Record<WorldObjectType, number>> } {
+  const types: Partial<Record<WorldObjectType, number>> = {};
+  const working = objects.filter(o => !isUnderConstruction(o) && healthOf(o) > 0);
+  working.forEach(o => { types[o.type] = (types[o.type] ?? 0) + 1; });
+  return { total: working.length, types };
+}
+
+type Composition = ReturnType<typeof composition>;
+
+export const meetsRequirement = (req: Requirement, have: Composition) =>
+  have.total >= (req.structures ?? 0)
+  && Object.entries(req.types ?? {}).every(([type, n]) => (have.types[type as WorldObjectType] ?? 0) >= n!);
+
+/** What is still missing, e.g. "2 more solar_panel, 1 more life_support_hub". */
+export function describeShortfall(req: Requirement, have: Composition): string {
+  const missing = Object.entries(req.types ?? {})
+    .map(([type, n]) => [type, n! - (have.types[type as WorldObjectType] ?? 0)] as const)
+    .filter(([, gap]) => gap > 0)
+    .map(([type, gap]) => `${gap} more ${type}`);
+  const structures = (req.structures ?? 0) - have.total;
+  if (structures > 0) missing.unshift(`${structures} more structures`);
+  return missing.join(', ') || 'nothing';
+}
+
+export interface ProgressionUpdate {
+  tier: SettlementTier;
+  goal: string;
+  unlockedBlueprints: string[];
+  newlyUnlocked: string[];
+  complexityLevel: number;
+}
+
+/**
+ * Tier, goal and unlocks for the settlement as it now stands. Tiers follow
+ * composition both ways; goals only move forward; unlocks are permanent.
+ */
+export function evaluateProgression(objects: WorldObject[], stats: Pick<ProgressionStats, 'unlockedBlueprints'>, currentGoal: string, def = PROGRESSION): ProgressionUpdate {
+  const have = composition(objects);
+  const tierIndex = def.tiers.reduce((best, t, i) => meetsRequirement(t.requires, have) ? i : best, 0);
+
+  let goalIndex = Math.max(0, def.goals.findIndex(g => g.title === currentGoal));
+  while (goalIndex + 1 < def.goals.length && meetsRequirement(def.goals[goalIndex + 1].requires, have)) goalIndex++;
+
+  const newlyUnlocked = def.unlocks
+    .filter(u => !stats.unlockedBlueprints.includes(u.blueprint) && meetsRequirement(u.requires, have))
+    .map(u => u.blueprint);
+  const unlockedBlueprints = [...stats.unlockedBlueprints, ...newlyUnlocked];
+
+  return {
+    tier: def.tiers[tierIndex].name,
+    goal: def.goals[goalIndex].title,
+    unlockedBlueprints,
+    newlyUnlocked,
+    complexityLevel: def.complexity.base + tierIndex * def.complexity.perTier + unlockedBlueprints.length * def.complexity.perUnlock
+  };
+}
+
+/** The next goal and tier and what each still needs, for the agent's scan data. */
+export function describeNextMilestones(objects: WorldObject[], stats: Pick<ProgressionStats, 'settlementTier' | 'unlockedBlueprints'>, currentGoal: string, def = PROGRESSION): string[] {
+  const have = composition(objects);
+  const nextTier = def.tiers[def.tiers.findIndex(t => t.name === stats.settlementTier) + 1];
+  const nextGoal = def.goals[def.goals.findIndex(g => g.title === currentGoal) + 1];
+  const lines: string[] = [];
+  if (nextGoal) lines.push(`goal "${nextGoal.title}" needs ${describeShortfall(nextGoal.requires, have)}`);
+  if (nextTier) lines.push(`tier ${nextTier.name} needs ${describeShortfall(nextTier.requires, have)}`);
+  const locked = def.unlocks.filter(u => !stats.unlockedBlueprints.includes(u.blueprint)).map(u => `blueprint ${u.blueprint} needs ${describeShortfall(u.requires, have)}`);
+  return [...lines, ...locked];
+}
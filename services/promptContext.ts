@@ -0,0 +1,122 @@
+import { ConstructionPlan, KnowledgeEntry, LogEntry } from "../types";
+import { stepLabel } from "./planGraph";
+
+export interface PromptContextOptions {
+  maxChars: number;
+  recentLogCount: number;
+  knowledgeCount: number;
+}
+
+export const DEFAULT_PROMPT_CONTEXT_OPTIONS: PromptContextOptions = {
+  maxChars: 1800,
+  recentLogCount: 8,
+  knowledgeCount: 4
+};
+
+// Rough heuristic shared by most tokenizers for English-like text.
+export const CHARS_PER_TOKEN = 4;
+export const estimateTokens = (text: string) => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+interface ContextSection {
+  title: string;
+  // Higher survives longer when the budget is tight.
+  priority: number;
+  // Display order; lines are dropped from the end of `importance` first.
+  lines: string[];
+  importance: number[];
+}
+
+const STATUS_RANK: Record<string, number> = { active: 0, pending: 1, failed: 2, completed: 3, skipped: 4 };
+
+function planSection(plan: ConstructionPlan): ContextSection {
+  const lines = plan.steps.map((s, idx) =>
+    `${stepLabel(idx)} [${s.status}${s.reason ? `: ${s.reason}` : ''}] ${s.label} (${s.type} @ ${s.position[0].toFixed(1)}, ${s.position[2].toFixed(1)})` +
+    (s.dependsOn?.length ? ` after ${s.dependsOn.map(stepLabel).join(', ')}` : ''));
+  const byImportance = plan.steps
+    .map((s, idx) => ({ idx, rank: STATUS_RANK[s.status] ?? 3 }))
+    .sort((a, b) => a.rank - b.rank || a.idx - b.idx)
+    .map(e => e.idx);
+  return {
+    title: `ACTIVE PLAN "${plan.objective}" (${plan.planId}, step ${plan.currentStepIndex + 1}/${plan.steps.length}):`,
+    priority: 3,
+    lines,
+    importance: byImportance
+  };
+}
+
+function logSection(history: LogEntry[], count: number): ContextSection {
+  const recent = history.filter(l => l.type === 'action' || l.type === 'error').slice(-count);
+  return {
+    title: 'RECENT EVENTS (oldest first):',
+    priority: 2,
+    lines: recent.map(l => `${l.type === 'error' ? '!' : '-'} ${l.message}`),
+    // Newest events matter most.
+    importance: recent.map((_, idx) => recent.length - 1 - idx)
+  };
+}
+
+const words = (text: string) => new Set(text.toLowerCase().split(/[^a-z0-9]+/).filter(w => w.length > 3));
+
+/**
+ * Scores knowledge entries by word overlap with the goal, with a small boost
+ * for recent and highlighted entries, and returns the top `count`.
+ */
+export function rankKnowledge(entries: KnowledgeEntry[], goal: string, count: number): KnowledgeEntry[] {
+  const goalWords = words(goal);
+  const newest = entries.reduce((max, e) => Math.max(max, e.iteration), 0) || 1;
+  return entries
+    .map(entry => {
+      const entryWords = words(`${entry.title} ${entry.description} ${entry.category}`);
+      const overlap = [...goalWords].filter(w => entryWords.has(w)).length;
+      return { entry, score: overlap * 2 + entry.iteration / newest + (entry.isHighlight ? 0.5 : 0) };
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, count)
+    .map(s => s.entry);
+}
+
+function knowledgeSection(entries: KnowledgeEntry[], goal: string, count: number): ContextSection {
+  const ranked = rankKnowledge(entries, goal, count);
+  return {
+    title: 'LEARNED KNOWLEDGE (most relevant first):',
+    priority: 1,
+    lines: ranked.map(k => `- [${k.category}] ${k.description}`),
+    importance: ranked.map((_, idx) => idx)
+  };
+}
+
+const render = (sections: ContextSection[]) => sections
+  .filter(s => s.lines.length > 0)
+  .map(s => [s.title, ...s.lines.map(l => `  ${l}`)].join('\n'))
+  .join('\n');
+
+/**
+ * Builds the plan / history / knowledge block appended to the decision
+ * prompt. When the block exceeds `maxChars`, lines are removed from the
+ * lowest-priority section first (knowledge, then events, then the plan),
+ * least important line first, until it fits.
+ */
+export function buildPromptContext(
+  input: { history: LogEntry[]; knowledgeBase: KnowledgeEntry[]; activePlan?: ConstructionPlan; currentGoal: string },
+  overrides: Partial<PromptContextOptions> = {}
+): string {
+  const options = { ...DEFAULT_PROMPT_CONTEXT_OPTIONS, ...overrides };
+  const sections: ContextSection[] = [
+    ...(input.activePlan ? [planSection(input.activePlan)] : []),
+    logSection(input.history, options.recentLogCount),
+    knowledgeSection(input.knowledgeBase, input.currentGoal, options.knowledgeCount)
+  ];
+
+  const dropOrder = sections.slice().sort((a, b) => a.priority - b.priority);
+  let text = render(sections);
+  for (const section of dropOrder) {
+    while (text.length > options.maxChars && section.importance.length > 0) {
+      const victim = section.importance.pop()!;
+      section.lines[victim] = '';
+      section.lines = section.lines.filter(Boolean);
+      section.importance = section.importance.map(i => (i > victim ? i - 1 : i));
+      text = render(sections);
+    }
+  }
+  return text.length > options.maxChars ? text.slice(0, options.maxChars) : text;
+}
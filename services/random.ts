@@ -0,0 +1,56 @@
+/**
+ * Seeded randomness for the simulation. The generator is mulberry32: a 32-bit
+ * state that fits in `SimulationState`, so a snapshot carries its own random
+ * stream and the same seed always replays the same draws.
+ */
+
+export const MAX_SEED = 0xffffffff;
+
+export function nextRandom(state: number): [value: number, nextState: number] {
+  const nextState = (state + 0x6d2b79f5) >>> 0;
+  let t = nextState;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return [((t ^ (t >>> 14)) >>> 0) / 4294967296, nextState];
+}
+
+// FNV-1a; turns ids and user-typed seeds into stable 32-bit integers.
+export function hashString(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export function parseSeed(input: string): number {
+  const trimmed = input.trim();
+  return /^\d+$/.test(trimmed) && Number(trimmed) <= MAX_SEED ? Number(trimmed) : hashString(trimmed);
+}
+
+// The only place a seed is allowed to come from outside the simulation.
+export const randomSeed = () => Math.floor(Math.random() * MAX_SEED) >>> 0;
+
+/**
+ * Mutable cursor over a random stream, for code that draws several values in
+ * a row. Read `state` afterwards to persist where the stream stopped.
+ */
+export function createRng(state: number) {
+  let current = state >>> 0;
+  return {
+    next(): number {
+      const [value, nextState] = nextRandom(current);
+      current = nextState;
+      return value;
+    },
+    get state() {
+      return current;
+    }
+  };
+}
+
+// Deterministic value in [0, 1) for a key, independent of any stream.
+export const hashUnit = (key: string) => nextRandom(hashString(key))[0];
+
+export const formatId = (prefix: string, counter: number) => `${prefix}-${counter.toString(36).padStart(5, '0')}`;
@@ -0,0 +1,51 @@
+export type QualityLevel = 'high' | 'medium' | 'low';
+
+// 'auto' starts high and steps with the measured frame rate.
+export type QualityMode = 'auto' | QualityLevel;
+
+export const QUALITY_LEVELS: QualityLevel[] = ['high', 'medium', 'low'];
+export const QUALITY_MODES: QualityMode[] = ['auto', ...QUALITY_LEVELS];
+
+export interface QualitySettings {
+  // Shadow maps from the key light and structures.
+  shadows: boolean;
+  // Soft ground shadows, which redraw the scene every frame.
+  contactShadows: boolean;
+  starCount: number;
+  auras: 'animated' | 'static' | 'off';
+  // Structures farther than this from the camera switch to their low-detail model.
+  lodDistance: number;
+  // Most structure lights (such as hub glows) lit at once, nearest first.
+  maxStructureLights: number;
+}
+
+export const QUALITY_SETTINGS: Record<QualityLevel, QualitySettings> = {
+  high: { shadows: true, contactShadows: true, starCount: 10000, auras: 'animated', lodDistance: 60, maxStructureLights: 8 },
+  medium: { shadows: true, contactShadows: false, starCount: 4000, auras: 'static', lodDistance: 40, maxStructureLights: 4 },
+  low: { shadows: false, contactShadows: false, starCount: 1000, auras: 'off', lodDistance: 25, maxStructureLights: 0 }
+};
+
+// Frame rates, sampled every couple of seconds, that move the adaptive level.
+export const LOWER_BELOW_FPS = 40;
+export const RAISE_ABOVE_FPS = 55;
+// Consecutive samples needed to move: dropping is quick, recovering is cautious so levels do not flip-flop.
+const SLOW_SAMPLES = 2;
+const FAST_SAMPLES = 5;
+
+export interface AdaptiveQuality {
+  level: QualityLevel;
+  slowSamples: number;
+  fastSamples: number;
+}
+
+export const initialAdaptiveQuality = (level: QualityLevel = 'high'): AdaptiveQuality => ({ level, slowSamples: 0, fastSamples: 0 });
+
+/** Feeds one measured frame rate in; steps a level down or up once enough samples agree. */
+export function adaptQuality(current: AdaptiveQuality, fps: number): AdaptiveQuality {
+  const slowSamples = fps < LOWER_BELOW_FPS ? current.slowSamples + 1 : 0;
+  const fastSamples = fps > RAISE_ABOVE_FPS ? current.fastSamples + 1 : 0;
+  const idx = QUALITY_LEVELS.indexOf(current.level);
+  if (slowSamples >= SLOW_SAMPLES && idx < QUALITY_LEVELS.length - 1) return initialAdaptiveQuality(QUALITY_LEVELS[idx + 1]);
+  if (fastSamples >= FAST_SAMPLES && idx > 0) return initialAdaptiveQuality(QUALITY_LEVELS[idx - 1]);
+  return { level: current.level, slowSamples, fastSamples };
+}
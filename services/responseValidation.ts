@@ -0,0 +1,252 @@
+import { WorldObjectType, KnowledgeCategory, ConstructionPlan, PlanStep, GroundingLink } from "../types";
+import { AIActionResponse, UPLINK_WAIT_RESPONSE } from "./aiLogic";
+import { TERRAIN_HALF } from "./terrain";
+import { MAINTENANCE_ACTIONS, isMaintenanceAction } from "./maintenance";
+import { nextStepIndex, unmetDependencies } from "./planGraph";
+
+export const WORLD_OBJECT_TYPES: WorldObjectType[] = ['wall', 'roof', 'door', 'crop', 'tree', 'well', 'fence', 'modular_unit', 'solar_panel', 'water_collector', 'data_spire', 'life_support_hub'];
+export const KNOWLEDGE_CATEGORIES: KnowledgeCategory[] = ['Infrastructure', 'Energy', 'Environment', 'Architecture', 'Synthesis'];
+export const FALLBACK_OBJECT_TYPE: WorldObjectType = 'modular_unit';
+
+const ACTIONS: AIActionResponse['action'][] = ['PLACE', 'MOVE', 'WAIT', ...MAINTENANCE_ACTIONS];
+const STEP_STATUSES: PlanStep['status'][] = ['pending', 'active', 'completed', 'failed', 'skipped'];
+
+export interface ValidationResult<T> {
+  value: T;
+  issues: string[];
+}
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isNonEmptyString = (v: unknown): v is string => typeof v === 'string' && v.trim().length > 0;
+
+function repairString(value: unknown, field: string, fallback: string, issues: string[]): string {
+  if (isNonEmptyString(value)) return value;
+  issues.push(`${field} missing or not a string; defaulted to "${fallback}"`);
+  return fallback;
+}
+
+function repairObjectType(value: unknown, field: string, issues: string[]): WorldObjectType {
+  if (WORLD_OBJECT_TYPES.includes(value as WorldObjectType)) return value as WorldObjectType;
+  issues.push(`${field} "${String(value)}" is not a known type; mapped to ${FALLBACK_OBJECT_TYPE}`);
+  return FALLBACK_OBJECT_TYPE;
+}
+
+/**
+ * Coerces a position to three finite numbers and clamps x/z onto the terrain
+ * plane. Returns undefined when the value cannot be read as a coordinate at all.
+ */
+export function repairPosition(value: unknown, field: string, issues: string[]): [number, number, number] | undefined {
+  if (!Array.isArray(value) || value.length !== 3) {
+    issues.push(`${field} is not a [x, y, z] tuple; dropped`);
+    return undefined;
+  }
+  const coords = value.map((c, idx) => {
+    const n = typeof c === 'string' ? Number(c) : c;
+    if (typeof n !== 'number' || !Number.isFinite(n)) {
+      issues.push(`${field}[${idx}] is not a finite number; set to 0`);
+      return 0;
+    }
+    return n;
+  });
+  for (const idx of [0, 2]) {
+    const clamped = Math.max(-TERRAIN_HALF, Math.min(TERRAIN_HALF, coords[idx]));
+    if (clamped !== coords[idx]) {
+      issues.push(`${field}[${idx}] ${coords[idx].toFixed(1)} outside terrain; clamped to ${clamped}`);
+      coords[idx] = clamped;
+    }
+  }
+  return [coords[0], coords[1], coords[2]];
+}
+
+export function validatePlanStep(raw: unknown, field: string): ValidationResult<PlanStep | undefined> {
+  const issues: string[] = [];
+  if (!isRecord(raw)) {
+    return { value: undefined, issues: [`${field} is not an object; dropped`] };
+  }
+  const position = repairPosition(raw.position, `${field}.position`, issues);
+  if (!position) {
+    return { value: undefined, issues: [...issues, `${field} has no usable position; dropped`] };
+  }
+  let status = raw.status as PlanStep['status'];
+  if (!STEP_STATUSES.includes(status)) {
+    issues.push(`${field}.status "${String(raw.status)}" invalid; set to pending`);
+    status = 'pending';
+  }
+  let dependsOn: number[] | undefined;
+  if (raw.dependsOn !== undefined) {
+    if (Array.isArray(raw.dependsOn) && raw.dependsOn.every(d => Number.isInteger(d) && d >= 0)) {
+      dependsOn = raw.dependsOn;
+    } else {
+      issues.push(`${field}.dependsOn is not a list of step indices; dropped`);
+    }
+  }
+  return {
+    value: {
+      label: repairString(raw.label, `${field}.label`, 'Unlabelled Step', issues),
+      type: repairObjectType(raw.type, `${field}.type`, issues),
+      position,
+      status,
+      dependsOn,
+      reason: isNonEmptyString(raw.reason) ? raw.reason : undefined
+    },
+    issues
+  };
+}
+
+export function validateConstructionPlan(raw: unknown, field = 'plan'): ValidationResult<ConstructionPlan | undefined> {
+  const issues: string[] = [];
+  if (!isRecord(raw)) {
+    return { value: undefined, issues: [`${field} is not an object; dropped`] };
+  }
+  if (!Array.isArray(raw.steps)) {
+    return { value: undefined, issues: [`${field}.steps is not an array; plan dropped`] };
+  }
+
+  const steps: PlanStep[] = [];
+  raw.steps.forEach((s, idx) => {
+    const result = validatePlanStep(s, `${field}.steps[${idx}]`);
+    issues.push(...result.issues);
+    if (result.value) steps.push(result.value);
+  });
+  if (steps.length === 0) {
+    return { value: undefined, issues: [...issues, `${field} has no valid steps; plan dropped`] };
+  }
+  // Dependencies may only point back, which keeps the plan acyclic.
+  steps.forEach((s, idx) => {
+    if (!s.dependsOn?.some(d => d >= idx)) return;
+    issues.push(`${field}.steps[${idx}].dependsOn refers to itself or a later step; those entries removed`);
+    s.dependsOn = s.dependsOn.filter(d => d < idx);
+  });
+
+  let currentStepIndex = 0;
+  const rawIndex = raw.currentStepIndex;
+  if (typeof rawIndex === 'number' && Number.isInteger(rawIndex) && rawIndex >= 0 && rawIndex < steps.length) {
+    currentStepIndex = rawIndex;
+  } else {
+    issues.push(`${field}.currentStepIndex ${String(rawIndex)} out of range; reset to 0`);
+  }
+  // The lead works on the current step, so it must not still be waiting on another one.
+  const waiting = steps[currentStepIndex].status === 'pending' ? unmetDependencies(steps, currentStepIndex) : [];
+  if (waiting.length > 0) {
+    const ready = nextStepIndex(steps);
+    issues.push(`${field}.currentStepIndex ${currentStepIndex} waits on unfinished step${waiting.length === 1 ? '' : 's'} ${waiting.join(', ')}; moved to ${ready}`);
+    currentStepIndex = ready;
+  }
+
+  return {
+    value: {
+      steps,
+      currentStepIndex,
+      sourceBlueprint: isNonEmptyString(raw.sourceBlueprint) ? raw.sourceBlueprint : undefined,
+      planId: repairString(raw.planId, `${field}.planId`, `plan-${steps.length}-${steps[0].type}`, issues),
+      objective: repairString(raw.objective, `${field}.objective`, 'Unspecified Objective', issues)
+    },
+    issues
+  };
+}
+
+/**
+ * Validates an untrusted decision payload and repairs what it can. Anything
+ * that cannot be repaired collapses the action to WAIT. Every change made is
+ * reported in `issues` so the caller can surface it.
+ */
+export function validateDecision(raw: unknown, activePlan?: ConstructionPlan): ValidationResult<AIActionResponse> {
+  const issues: string[] = [];
+  if (!isRecord(raw)) {
+    return { value: UPLINK_WAIT_RESPONSE, issues: ['response is not a JSON object; replaced with WAIT'] };
+  }
+
+  let action = raw.action as AIActionResponse['action'];
+  if (!ACTIONS.includes(action)) {
+    issues.push(`action "${String(raw.action)}" unsupported; set to WAIT`);
+    action = 'WAIT';
+  }
+
+  const reason = repairString(raw.reason, 'reason', 'No reason supplied.', issues);
+
+  let reasoningSteps: string[];
+  if (Array.isArray(raw.reasoningSteps)) {
+    reasoningSteps = raw.reasoningSteps.filter(isNonEmptyString);
+    if (reasoningSteps.length !== raw.reasoningSteps.length) {
+      issues.push(`reasoningSteps contained ${raw.reasoningSteps.length - reasoningSteps.length} non-string entries; removed`);
+    }
+  } else {
+    issues.push('reasoningSteps missing; derived from reason');
+    reasoningSteps = [reason];
+  }
+
+  let knowledgeCategory = raw.knowledgeCategory as KnowledgeCategory;
+  if (!KNOWLEDGE_CATEGORIES.includes(knowledgeCategory)) {
+    issues.push(`knowledgeCategory "${String(raw.knowledgeCategory)}" invalid; set to Synthesis`);
+    knowledgeCategory = 'Synthesis';
+  }
+
+  let groundingLinks: GroundingLink[] | undefined;
+  if (raw.groundingLinks !== undefined) {
+    if (Array.isArray(raw.groundingLinks)) {
+      groundingLinks = raw.groundingLinks.filter((l): l is GroundingLink => isRecord(l) && isNonEmptyString(l.uri) && typeof l.title === 'string');
+      if (groundingLinks.length !== raw.groundingLinks.length) {
+        issues.push(`groundingLinks contained ${raw.groundingLinks.length - groundingLinks.length} malformed links; removed`);
+      }
+    } else {
+      issues.push('groundingLinks is not an array; dropped');
+    }
+  }
+
+  const objectType = raw.objectType === undefined ? undefined : repairObjectType(raw.objectType, 'objectType', issues);
+  const position = raw.position === undefined ? undefined : repairPosition(raw.position, 'position', issues);
+
+  let plan: ConstructionPlan | undefined;
+  if (raw.plan !== undefined && raw.plan !== null) {
+    const result = validateConstructionPlan(raw.plan);
+    issues.push(...result.issues);
+    plan = result.value;
+  }
+
+  let blueprint: string | undefined;
+  if (raw.blueprint !== undefined && raw.blueprint !== null) {
+    if (action === 'PLACE' && isNonEmptyString(raw.blueprint)) {
+      blueprint = raw.blueprint;
+    } else {
+      issues.push(`blueprint ${JSON.stringify(raw.blueprint)} ignored; it needs a name and a PLACE action`);
+    }
+  }
+
+  if (action === 'PLACE') {
+    const fallbackPlan = plan || activePlan;
+    const planStep = fallbackPlan?.steps[fallbackPlan.currentStepIndex];
+    // A blueprint without a position is laid out at the lead agent.
+    if (!position && !planStep && !blueprint) {
+      issues.push('PLACE has no position, plan step or blueprint to fall back on; set to WAIT');
+      action = 'WAIT';
+    }
+  }
+
+  let targetId: string | undefined;
+  if (isMaintenanceAction(action)) {
+    if (isNonEmptyString(raw.targetId)) {
+      targetId = raw.targetId;
+    } else {
+      issues.push(`${action} has no targetId; set to WAIT`);
+      action = 'WAIT';
+    }
+  }
+
+  return {
+    value: {
+      action,
+      objectType,
+      position,
+      targetId,
+      blueprint,
+      reason,
+      reasoningSteps,
+      learningNote: repairString(raw.learningNote, 'learningNote', 'Neural Synthesis: Unannotated iteration.', issues),
+      knowledgeCategory,
+      taskLabel: repairString(raw.taskLabel, 'taskLabel', 'Synthesis Action', issues),
+      groundingLinks,
+      plan
+    },
+    issues
+  };
+}
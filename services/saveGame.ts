@@ -0,0 +1,210 @@
+import { SimulationState, WorldObject } from "../types";
+import { createInitialState } from "./simulationEngine";
+import { complianceScore } from "./directives";
+import { getTerrainHeight } from "./terrain";
+import { RESOURCE_KINDS } from "./economy";
+import { parseObject } from "./worldFile";
+
+export const SAVE_SCHEMA_VERSION = 1;
+export const AUTOSAVE_SLOT = 'autosave';
+
+const DB_NAME = 'architect-os';
+const DB_VERSION = 1;
+const STORE = 'saves';
+
+export interface SaveSnapshot {
+  schemaVersion: number;
+  slot: string;
+  savedAt: number;
+  state: SimulationState;
+}
+
+export interface SaveSlotInfo {
+  slot: string;
+  savedAt: number;
+  schemaVersion: number;
+  tick?: number;
+  objectCount?: number;
+}
+
+type StoredState = Record<string, unknown>;
+type Migration = (state: StoredState) => StoredState;
+
+const isRecord = (v: unknown): v is StoredState => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+/**
+ * Upgrades a snapshot's state from version N to N + 1. When a change to
+ * types.ts alters SimulationState, bump SAVE_SCHEMA_VERSION and add the
+ * entry for the old version here; older saves then step through every
+ * migration in turn.
+ */
+const MIGRATIONS: Record<number, Migration> = {
+  // v0 is the state of builds before the headless engine: world, logs, knowledge and plan only.
+  // The seed, clock, crew, economy, events, plan history and blueprints start fresh.
+  0: state => {
+    if (!Array.isArray(state.objects) || !isRecord(state.progression)) throw new Error('objects or progression is missing');
+    return {
+      ...createInitialState(),
+      ...state,
+      progression: { ...state.progression, complianceScore: complianceScore(state.objects as WorldObject[], getTerrainHeight) }
+    };
+  }
+};
+
+export const createSnapshot = (slot: string, state: SimulationState, savedAt = Date.now()): SaveSnapshot => ({
+  schemaVersion: SAVE_SCHEMA_VERSION,
+  slot,
+  savedAt,
+  state: { ...state, isScanning: false }
+});
+
+// Fields the engine cannot run without; a snapshot missing any of them is treated as corrupted.
+const REQUIRED_ARRAYS = ['objects', 'logs', 'knowledgeBase', 'agents', 'events', 'planHistory', 'blueprints'] as const;
+const REQUIRED_NUMBERS = ['tick', 'seed', 'rngState', 'idCounter', 'learningIteration'] as const;
+
+const AGENT_STATUSES = ['idle', 'moving', 'building'];
+const RESOURCE_FIELDS = ['produced', 'demanded', 'stored', 'capacity', 'deficit'] as const;
+
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isVector = (v: unknown) => Array.isArray(v) && v.length === 3 && v.every(isNumber);
+const isVectorList = (v: unknown) => v === undefined || (Array.isArray(v) && v.every(isVector));
+
+function checkAgent(agent: unknown, field: string): string | null {
+  if (!isRecord(agent) || typeof agent.id !== 'string' || typeof agent.color !== 'string') return `${field} has no id or colour`;
+  if (!isVector(agent.position)) return `${field}.position is not three numbers`;
+  if (!AGENT_STATUSES.includes(agent.status as string)) return `${field}.status "${String(agent.status)}" is not a known status`;
+  if (!isVectorList(agent.path) || !isVectorList(agent.trail)) return `${field}.path or trail is not a list of points`;
+  const { task } = agent;
+  if (task !== undefined && !(isRecord(task) && typeof task.planId === 'string' && Number.isInteger(task.stepIndex))) return `${field}.task is malformed`;
+  return null;
+}
+
+function checkEconomy(economy: unknown): string | null {
+  if (!isRecord(economy) || !isRecord(economy.resources)) return 'economy is missing';
+  const { resources } = economy;
+  for (const kind of RESOURCE_KINDS) {
+    const status = resources[kind];
+    const bad = isRecord(status) ? RESOURCE_FIELDS.find(key => !isNumber(status[key])) : 'produced';
+    if (bad) return `economy.resources.${kind}.${bad} is not a number`;
+  }
+  if (!Array.isArray(economy.offline) || !economy.offline.every(id => typeof id === 'string')) return 'economy.offline is not a list of ids';
+  return null;
+}
+
+const firstProblem = (items: unknown, check: (item: unknown, field: string) => string | null, key: string) =>
+  Array.isArray(items) ? items.reduce<string | null>((problem, item, i) => problem ?? check(item, `${key}[${i}]`), null) : `${key} is not a list`;
+
+function checkObject(object: unknown, field: string): string | null {
+  try {
+    parseObject(object, field);
+    return null;
+  } catch (e) {
+    return e instanceof Error ? e.message : String(e);
+  }
+}
+
+const checkLog = (log: unknown, field: string) =>
+  isRecord(log) && typeof log.id === 'string' && typeof log.message === 'string' && typeof log.type === 'string' && isNumber(log.timestamp)
+    ? null
+    : `${field} is malformed`;
+
+function checkState(state: unknown): string | null {
+  if (!isRecord(state)) return 'state is missing';
+  const array = REQUIRED_ARRAYS.find(key => !Array.isArray(state[key]));
+  if (array) return `${array} is not a list`;
+  const number = REQUIRED_NUMBERS.find(key => typeof state[key] !== 'number');
+  if (number) return `${number} is not a number`;
+  const { objects, agents, logs } = state;
+  if (Array.isArray(agents) && agents.length === 0) return 'there are no builder agents';
+  if (!isRecord(state.progression) || typeof state.currentGoal !== 'string') return 'progression or goal is missing';
+  // Entries the canvas and engine read directly are checked one by one.
+  return firstProblem(objects, checkObject, 'objects')
+    ?? firstProblem(agents, checkAgent, 'agents')
+    ?? firstProblem(logs, checkLog, 'logs')
+    ?? checkEconomy(state.economy);
+}
+
+/**
+ * Checks and migrates a stored snapshot up to the current schema. Throws an
+ * Error naming the slot and the problem when the snapshot is unreadable,
+ * from a newer build, or corrupted.
+ */
+export function restoreSnapshot(raw: unknown): SimulationState {
+  const snapshot = isRecord(raw) ? raw : {};
+  const label = typeof snapshot.slot === 'string' ? `Save "${snapshot.slot}"` : 'Save';
+  const { schemaVersion } = snapshot;
+  if (typeof schemaVersion !== 'number') throw new Error(`${label} has no schema version and cannot be read`);
+  if (schemaVersion > SAVE_SCHEMA_VERSION) {
+    throw new Error(`${label} was written by a newer build (schema v${schemaVersion}; this build reads up to v${SAVE_SCHEMA_VERSION})`);
+  }
+  let state = snapshot.state;
+  for (let version = schemaVersion; version < SAVE_SCHEMA_VERSION; version++) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`${label} uses schema v${version}, which can no longer be upgraded`);
+    if (!isRecord(state)) throw new Error(`${label} is corrupted: state is missing`);
+    try {
+      state = migrate(state);
+    } catch (e) {
+      throw new Error(`${label} failed to upgrade from schema v${version}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+  const problem = checkState(state);
+  if (problem) throw new Error(`${label} is corrupted: ${problem}`);
+  // checkState has vouched for every field the engine needs.
+  return { ...(state as SimulationState), isScanning: false };
+}
+
+const request = <T>(req: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error ?? new Error('IndexedDB request failed'));
+});
+
+function openDatabase(factory: IDBFactory | undefined = globalThis.indexedDB): Promise<IDBDatabase> {
+  if (!factory) return Promise.reject(new Error('IndexedDB is not available, so saves are disabled'));
+  const open = factory.open(DB_NAME, DB_VERSION);
+  open.onupgradeneeded = () => {
+    if (!open.result.objectStoreNames.contains(STORE)) open.result.createObjectStore(STORE, { keyPath: 'slot' });
+  };
+  return request(open);
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await request(run(db.transaction(STORE, mode).objectStore(STORE)));
+  } finally {
+    db.close();
+  }
+}
+
+export async function writeSave(slot: string, state: SimulationState, savedAt = Date.now()): Promise<void> {
+  await withStore('readwrite', store => store.put(createSnapshot(slot, state, savedAt)));
+}
+
+/** Restores a slot, or resolves undefined when the slot is empty. Throws on unreadable saves. */
+export async function readSave(slot: string): Promise<SimulationState | undefined> {
+  const raw = await withStore<unknown>('readonly', store => store.get(slot));
+  return raw === undefined ? undefined : restoreSnapshot(raw);
+}
+
+export async function deleteSave(slot: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(slot));
+}
+
+/** Every stored slot, newest first. Summaries come from the raw record, so corrupted saves still list. */
+export async function listSaves(): Promise<SaveSlotInfo[]> {
+  const records = await withStore<unknown[]>('readonly', store => store.getAll());
+  return records
+    .map(raw => {
+      const r = isRecord(raw) ? raw : {};
+      const state = isRecord(r.state) ? r.state : {};
+      return {
+        slot: String(r.slot),
+        savedAt: typeof r.savedAt === 'number' ? r.savedAt : 0,
+        schemaVersion: typeof r.schemaVersion === 'number' ? r.schemaVersion : 0,
+        tick: typeof state.tick === 'number' ? state.tick : undefined,
+        objectCount: Array.isArray(state.objects) ? state.objects.length : undefined
+      };
+    })
+    .sort((a, b) => b.savedAt - a.savedAt);
+}
@@ -0,0 +1,51 @@
+import * as THREE from "three";
+import { GLTFExporter } from "three/examples/jsm/exporters/GLTFExporter.js";
+import { WorldObject } from "../types";
+import { ASSET_MODELS, LEVEL_BANDS, ModelPart, partColor, partMatrix, placementMatrix, structureMatrix } from "./assetModels";
+import { isUnderConstruction } from "./construction";
+import { levelOf } from "./maintenance";
+
+// Set on the node of every exported structure so the file can be mapped back to its objects.
+export const OBJECT_ID_KEY = 'objectId';
+
+/**
+ * Writes the finished structures to a binary glTF at full detail, one named
+ * node per structure. Lights and wireframe overlays are left out; damage
+ * tint, lean and upgrade bands are kept.
+ */
+export async function exportSettlementGlb(objects: WorldObject[]): Promise<ArrayBuffer> {
+  const scene = new THREE.Group();
+  scene.name = 'settlement';
+  const materials = new Map<string, THREE.MeshStandardMaterial>();
+  const color = new THREE.Color();
+
+  const meshFor = (part: ModelPart, o: WorldObject, frame: THREE.Matrix4) => {
+    const hex = partColor(part, o, false, color).getHexString();
+    const key = `${hex}:${part.metalness}:${part.roughness}:${part.emissive}:${part.glow}`;
+    const material = materials.get(key) ?? new THREE.MeshStandardMaterial({
+      color: `#${hex}`, metalness: part.metalness ?? 0.5, roughness: part.roughness ?? 0.2,
+      emissive: part.emissive ?? '#000000', emissiveIntensity: part.emissive ? part.glow ?? 0.4 : 0
+    });
+    materials.set(key, material);
+    const mesh = new THREE.Mesh(part.geometry, material);
+    frame.clone().multiply(partMatrix(part)).decompose(mesh.position, mesh.quaternion, mesh.scale);
+    return mesh;
+  };
+
+  objects.filter(o => !isUnderConstruction(o)).forEach(o => {
+    const node = new THREE.Group();
+    node.name = o.id;
+    node.userData[OBJECT_ID_KEY] = o.id;
+    const structure = structureMatrix(o);
+    ASSET_MODELS[o.type].parts.filter(p => !p.wireframe).forEach(part => node.add(meshFor(part, o, structure)));
+    const placement = placementMatrix(o);
+    LEVEL_BANDS.slice(0, levelOf(o) - 1).forEach(band => node.add(meshFor(band, o, placement)));
+    scene.add(node);
+  });
+
+  try {
+    return await new GLTFExporter().parseAsync(scene, { binary: true }) as ArrayBuffer;
+  } finally {
+    materials.forEach(m => m.dispose());
+  }
+}
@@ -0,0 +1,86 @@
+import { BuilderAgent, ConstructionPlan } from "../types";
+import { snapToGrid } from "./occupancy";
+import { advancePlan, isSettled, isStepReady } from "./planGraph";
+
+export const AGENT_COLORS = ['#38bdf8', '#f472b6', '#a3e635', '#fbbf24', '#c084fc', '#fb923c', '#2dd4bf', '#f87171'];
+export const MAX_AGENTS = AGENT_COLORS.length;
+// agents[0] is steered by the decision provider; the rest take work from the scheduler.
+export const LEAD_AGENT_ID = 'agent-0';
+
+const cellKey = (p: [number, number, number]) => `${snapToGrid(p[0])}:${snapToGrid(p[2])}`;
+const distance = (a: [number, number, number], b: [number, number, number]) => Math.hypot(a[0] - b[0], a[2] - b[2]);
+
+function createAgent(index: number, position: [number, number, number]): BuilderAgent {
+  return { id: `agent-${index}`, color: AGENT_COLORS[index % AGENT_COLORS.length], position, status: 'idle' };
+}
+
+export function createAgents(count: number): BuilderAgent[] {
+  return Array.from({ length: Math.max(1, Math.min(MAX_AGENTS, count)) }, (_, i) => createAgent(i, [i * 1.5, 0, 0]));
+}
+
+// Hands a helper's unstarted step back to the pool; started builds stay with their objects.
+function releaseStep(plan: ConstructionPlan | undefined, agentId: string): ConstructionPlan | undefined {
+  if (!plan) return plan;
+  const steps = plan.steps.map(s => s.assignee === agentId && !s.objectId ? { ...s, assignee: undefined, status: 'pending' as const } : s);
+  return { ...plan, steps };
+}
+
+/**
+ * Grows or shrinks the team. New helpers start next to the lead; removed
+ * helpers give back any step they had not started.
+ */
+export function resizeAgents(agents: BuilderAgent[], plan: ConstructionPlan | undefined, count: number): { agents: BuilderAgent[]; plan: ConstructionPlan | undefined } {
+  const target = Math.max(1, Math.min(MAX_AGENTS, count));
+  if (target <= agents.length) {
+    const removed = agents.slice(target);
+    return { agents: agents.slice(0, target), plan: removed.reduce((p, a) => releaseStep(p, a.id), plan) };
+  }
+  const [lx, ly, lz] = agents[0].position;
+  const added = Array.from({ length: target - agents.length }, (_, i) => createAgent(agents.length + i, [lx + (agents.length + i) * 1.5, ly, lz]));
+  return { agents: [...agents, ...added], plan };
+}
+
+/**
+ * Gives ready, unclaimed plan steps (pending, with every dependency
+ * completed) to idle helpers, nearest helper first, in step order. A step
+ * is never handed out while another agent holds a step on the same snapped
+ * cell, and the lead's current step is always held by the lead.
+ */
+export function assignTasks(plan: ConstructionPlan | undefined, agents: BuilderAgent[]): { plan: ConstructionPlan | undefined; agents: BuilderAgent[] } {
+  if (!plan) return { plan, agents };
+  const claimed = new Set(plan.steps
+    .filter((s, idx) => idx === plan.currentStepIndex || (s.assignee && !isSettled(s)))
+    .map(s => cellKey(s.position)));
+  const idle = agents.filter(a => a.id !== LEAD_AGENT_ID && !a.task);
+  const assigned = new Map<string, number>();
+  const steps = plan.steps.map((s, idx) => {
+    if (idle.length === 0 || idx === plan.currentStepIndex || !isStepReady(plan.steps, idx) || s.assignee) return s;
+    const key = cellKey(s.position);
+    if (claimed.has(key)) return s;
+    const nearest = idle.reduce((best, a) => distance(a.position, s.position) < distance(best.position, s.position) ? a : best);
+    idle.splice(idle.indexOf(nearest), 1);
+    claimed.add(key);
+    assigned.set(nearest.id, idx);
+    return { ...s, assignee: nearest.id, status: 'active' as const };
+  });
+  if (assigned.size === 0) return { plan, agents };
+  return {
+    plan: { ...plan, steps },
+    agents: agents.map(a => assigned.has(a.id)
+      ? { ...a, status: 'moving' as const, task: { planId: plan.planId, stepIndex: assigned.get(a.id)! } }
+      : a)
+  };
+}
+
+/**
+ * Marks the step whose object just finished as completed. When that was the
+ * lead's current step, the lead moves on (see advancePlan). A plan with every
+ * step settled is kept so the engine can archive it.
+ */
+export function completePlanStep(plan: ConstructionPlan | undefined, objectId: string): ConstructionPlan | undefined {
+  if (!plan) return plan;
+  const idx = plan.steps.findIndex(s => s.objectId === objectId);
+  if (idx === -1) return plan;
+  const completed = { ...plan, steps: plan.steps.map((s, i) => i === idx ? { ...s, status: 'completed' as const } : s) };
+  return idx === plan.currentStepIndex ? advancePlan(completed) : completed;
+}
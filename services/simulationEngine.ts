@@ -0,0 +1,644 @@
+import { WorldObject, WorldObjectType, LogEntry, SimulationState, SettlementTier, ConstructionPlan, KnowledgeEntry, PlacementOutcome, DirectiveMode, BuilderAgent, PlanStep, MaintenanceAction, Blueprint, PlanOutcome } from "../types";
+import { AIActionResponse, DecisionContext } from "./aiLogic";
+import { PromptContextOptions } from "./promptContext";
+import { FALLBACK_OBJECT_TYPE } from "./responseValidation";
+import { getTerrainHeight } from "./terrain";
+import { createRng, formatId, randomSeed } from "./random";
+import { GRID_SNAP, createOccupancyIndex, describePlacement, resolvePlacement, snapToGrid } from "./occupancy";
+import { DirectiveViolation, complianceScore, describeViolation, evaluatePlacement } from "./directives";
+import { RESOURCE_KINDS, createEconomy, tickEconomy } from "./economy";
+import { EVENT_SPECS, describeEvent, eventDamage, isEventActive, rollEvent, weatherFactor } from "./environment";
+import { BUILD_RANGE, BUILD_SPECS, advanceConstruction, isOnSite, isUnderConstruction } from "./construction";
+import { AGENT_SPEED, createNavGrid, findPath, pathLength, travelTicks, walkPath } from "./navigation";
+import { REPAIR_PER_TICK, healthOf, isMaintenanceAction, levelOf, maintenanceBlocker, repairCost, salvageValue, upgradeCost, wear, withHealth } from "./maintenance";
+import { PROGRESSION, evaluateProgression } from "./progression";
+import { addBlueprints, availableBlueprints, blueprintFromObjects, clusterAround, findBlueprint, instantiateBlueprint } from "./blueprints";
+import { advancePlan, archivePlan, countSteps, failStep, isPlanSettled, isSettled, planOutcome, stepLabel, unmetDependencies } from "./planGraph";
+import { LEAD_AGENT_ID, assignTasks, completePlanStep, createAgents, resizeAgents } from "./scheduler";
+
+// Outside inputs the engine needs, injected so runs can be reproduced.
+// Randomness is not one of them: it comes from the seeded stream in the state.
+export interface EngineEnv {
+  now: () => number;
+  terrainHeight: (x: number, z: number) => number;
+}
+
+export const DEFAULT_ENV: EngineEnv = {
+  now: () => Date.now(),
+  terrainHeight: getTerrainHeight
+};
+
+const resolveEnv = (env: Partial<EngineEnv> = {}): EngineEnv => ({ ...DEFAULT_ENV, ...env });
+
+/**
+ * Draws random numbers and sequential ids from a state without mutating it;
+ * `commit` writes the advanced stream and counter into the next state.
+ */
+function sequencer(state: SimulationState) {
+  const rng = createRng(state.rngState);
+  let counter = state.idCounter;
+  return {
+    random: () => rng.next(),
+    id: (prefix: string) => formatId(prefix, ++counter),
+    commit: (next: SimulationState): SimulationState => ({ ...next, rngState: rng.state, idCounter: counter })
+  };
+}
+
+type Sequencer = ReturnType<typeof sequencer>;
+
+export interface InitialStateOptions {
+  directiveMode?: DirectiveMode;
+  agentCount?: number;
+}
+
+export function createInitialState(seed: number = randomSeed(), { directiveMode = 'soft', agentCount = 1 }: InitialStateOptions = {}): SimulationState {
+  const start = evaluateProgression([], { unlockedBlueprints: [] }, PROGRESSION.goals[0].title);
+  return {
+    objects: [],
+    logs: [],
+    knowledgeBase: [],
+    currentGoal: start.goal,
+    planHistory: [],
+    blueprints: [],
+    learningIteration: 0,
+    networkStatus: 'uplink_active',
+    activePlan: undefined,
+    directiveMode,
+    economy: createEconomy(),
+    isScanning: false,
+    agents: createAgents(agentCount),
+    events: [],
+    tick: 0,
+    seed,
+    rngState: seed,
+    idCounter: 0,
+    progression: {
+      complexityLevel: start.complexityLevel,
+      structuresCompleted: 0,
+      totalBlocks: 0,
+      unlockedBlueprints: start.unlockedBlueprints,
+      settlementTier: start.tier,
+      complianceScore: 100
+    },
+    ui: { showStats: true, showKnowledge: true, showLogs: true, showPlanning: true }
+  };
+}
+
+export const leadAgent = (state: SimulationState) => state.agents[0];
+
+function updateAgent(state: SimulationState, agentId: string, patch: Partial<BuilderAgent>): SimulationState {
+  return { ...state, agents: state.agents.map(a => a.id === agentId ? { ...a, ...patch } : a) };
+}
+
+function updatePlanStep(state: SimulationState, stepIndex: number, patch: Partial<PlanStep>): SimulationState {
+  const plan = state.activePlan;
+  if (!plan) return state;
+  return { ...state, activePlan: { ...plan, steps: plan.steps.map((s, idx) => idx === stepIndex ? { ...s, ...patch } : s) } };
+}
+
+export function appendLog(state: SimulationState, message: string, type: LogEntry['type'] = 'action', env: Partial<EngineEnv> = {}): SimulationState {
+  const seq = sequencer(state);
+  return seq.commit({
+    ...state,
+    logs: [...state.logs, { id: seq.id('log'), type, message, timestamp: resolveEnv(env).now() }]
+  });
+}
+
+export function decisionContext(state: SimulationState, promptOptions?: Partial<PromptContextOptions>, env: Partial<EngineEnv> = {}): DecisionContext {
+  return {
+    history: state.logs,
+    worldObjects: state.objects,
+    currentGoal: state.currentGoal,
+    knowledgeBase: state.knowledgeBase,
+    terrainHeightMap: resolveEnv(env).terrainHeight,
+    progression: state.progression,
+    activePlan: state.activePlan,
+    lastPlacement: state.lastPlacement,
+    directiveMode: state.directiveMode,
+    economy: state.economy,
+    avatarPosition: leadAgent(state).position,
+    agents: state.agents,
+    tick: state.tick,
+    events: state.events,
+    blueprints: state.blueprints,
+    planHistory: state.planHistory,
+    promptOptions
+  };
+}
+
+interface SiteEvaluation {
+  position: [number, number, number];
+  placement: PlacementOutcome;
+  violations: DirectiveViolation[];
+}
+
+// Collision, bounds and directive checks for building `type` near `requested`.
+function evaluateSite(state: SimulationState, type: WorldObjectType, requested: [number, number, number], terrainHeight: EngineEnv['terrainHeight']): SiteEvaluation {
+  const placement = resolvePlacement(createOccupancyIndex(state.objects), type, requested[0], requested[2]);
+  const [x, z] = placement.resolved ?? placement.requested;
+  const position: [number, number, number] = [x, terrainHeight(x, z), z];
+  const violations = placement.status === 'rejected' ? [] : evaluatePlacement({ type, position }, state.objects, terrainHeight);
+  if (state.directiveMode === 'hard' && violations.length > 0) {
+    return { position, violations, placement: { ...placement, status: 'rejected', resolved: undefined, reason: violations.map(describeViolation).join('; ') } };
+  }
+  return { position, placement, violations };
+}
+
+/**
+ * Where a decision will put the lead agent: the placement site for PLACE
+ * (after collision and directive checks, see `placement` and `violations`),
+ * the requested (or a random nearby) point for MOVE, unchanged for WAIT.
+ * Heights are snapped to the terrain.
+ */
+export function resolveTarget(
+  state: SimulationState,
+  decision: AIActionResponse,
+  env: Partial<EngineEnv> = {},
+  random: () => number = sequencer(state).random
+): { type: WorldObjectType; position: [number, number, number]; placement?: PlacementOutcome; violations?: DirectiveViolation[] } | null {
+  const { terrainHeight } = resolveEnv(env);
+  const onTerrain = (p: [number, number, number]): [number, number, number] => [p[0], terrainHeight(p[0], p[2]), p[2]];
+
+  if (decision.action === 'PLACE') {
+    const plan = decision.plan || state.activePlan;
+    const planStep = plan?.steps[plan.currentStepIndex];
+    const type = decision.objectType || planStep?.type || FALLBACK_OBJECT_TYPE;
+    return { type, ...evaluateSite(state, type, decision.position || planStep?.position || [0, 0, 0], terrainHeight) };
+  }
+  if (decision.action === 'MOVE') {
+    const [ax, , az] = leadAgent(state).position;
+    return {
+      type: FALLBACK_OBJECT_TYPE,
+      position: onTerrain(decision.position || [ax + (random() - 0.5) * 15, 0, az + (random() - 0.5) * 15])
+    };
+  }
+  return null;
+}
+
+// Whether a PLACE of `type` at (x, z) builds `step`: the same type on the same snapped cell.
+const buildsStep = (step: PlanStep | undefined, type: WorldObjectType, [x, z]: [number, number]) =>
+  !!step && step.type === type && snapToGrid(x) === snapToGrid(step.position[0]) && snapToGrid(z) === snapToGrid(step.position[2]);
+
+// The plan's current step when a PLACE builds it, else -1: any other placement is a free build.
+function placedStepIndex(plan: ConstructionPlan | undefined, placement: PlacementOutcome): number {
+  return plan && buildsStep(plan.steps[plan.currentStepIndex], placement.type, placement.requested) ? plan.currentStepIndex : -1;
+}
+
+// Links the placed object to its step; the step completes when the build does.
+function attachToPlan(plan: ConstructionPlan | undefined, stepIndex: number, objectId: string): ConstructionPlan | undefined {
+  if (!plan || stepIndex === -1) return plan;
+  const steps = plan.steps.map((s, idx) => idx === stepIndex ? { ...s, status: 'active' as const, objectId, assignee: s.assignee ?? LEAD_AGENT_ID } : s);
+  return { ...plan, steps };
+}
+
+// The build already started for the current plan step, if it is still going and the PLACE is aimed at it.
+function pendingBuild(state: SimulationState, decision: AIActionResponse): WorldObject | undefined {
+  if (decision.plan && decision.plan.planId !== state.activePlan?.planId) return undefined;
+  const current = state.activePlan?.steps[state.activePlan.currentStepIndex];
+  if (!current?.objectId) return undefined;
+  const [x, , z] = decision.position ?? current.position;
+  if (!buildsStep(current, decision.objectType ?? current.type, [x, z])) return undefined;
+  return state.objects.find(o => o.id === current.objectId && isUnderConstruction(o));
+}
+
+// Swaps in a new object list and recomputes the count kept alongside it.
+// Compliance, tier, goal and unlocks follow at the end of the tick; see runProgression.
+const withObjects = (state: SimulationState, objects: WorldObject[]): SimulationState =>
+  ({ ...state, objects, progression: { ...state.progression, totalBlocks: objects.length } });
+
+const addStructure = (state: SimulationState, object: WorldObject) =>
+  withObjects(state, [...state.objects, object]);
+
+// Takes a structure down. A plan step it was built for goes back to pending.
+function removeStructure(state: SimulationState, object: WorldObject): SimulationState {
+  const next = withObjects(state, state.objects.filter(o => o.id !== object.id));
+  const plan = state.activePlan;
+  const activePlan = plan && {
+    ...plan,
+    steps: plan.steps.map(s => s.objectId === object.id && s.status !== 'completed'
+      ? { ...s, status: 'pending' as const, objectId: undefined, assignee: undefined }
+      : s)
+  };
+  const built = isUnderConstruction(object) ? 0 : 1;
+  return { ...next, activePlan, progression: { ...next.progression, structuresCompleted: next.progression.structuresCompleted - built } };
+}
+
+const withMaterials = (state: SimulationState, stored: number): SimulationState => {
+  const materials = state.economy.resources.materials;
+  return {
+    ...state,
+    economy: { ...state.economy, resources: { ...state.economy.resources, materials: { ...materials, stored: Math.min(materials.capacity, stored) } } }
+  };
+};
+
+const newStructure = (id: string, type: WorldObjectType, position: [number, number, number], env: EngineEnv): WorldObject =>
+  ({ id, type, position, rotation: [0, 0, 0], scale: [1, 1, 1], timestamp: env.now(), buildProgress: 0 });
+
+const buildSummary = (type: WorldObjectType, position: [number, number, number]) => {
+  const spec = BUILD_SPECS[type];
+  return `${type} at [${position[0].toFixed(1)}, ${position[2].toFixed(1)}] (${spec.ticks} tick${spec.ticks === 1 ? '' : 's'}, ${spec.materials} materials)`;
+};
+
+// Agents stop this close to a build: near enough to work on it, clear of its footprint.
+const SITE_REACH = BUILD_RANGE * 0.9;
+
+const coords = (p: [number, number, number]) => `[${p[0].toFixed(1)}, ${p[2].toFixed(1)}]`;
+
+// Plans an agent's walk to `destination` around structures and steep ground; it is walked a tick at a time.
+function routeAgent(state: SimulationState, agentId: string, destination: [number, number, number], arriveWithin: number, env: EngineEnv): SimulationState {
+  const agent = state.agents.find(a => a.id === agentId)!;
+  const path = findPath(createNavGrid(state.objects, env.terrainHeight), agent.position, destination, arriveWithin);
+  if (path) return updateAgent(state, agentId, { path });
+  return appendLog(updateAgent(state, agentId, { path: undefined }), `PATH_BLOCKED: ${agentId} has no route to ${coords(destination)}`, 'error', env);
+}
+
+const describeRoute = (agent: BuilderAgent) => {
+  if (!agent.path) return 'no route';
+  return agent.path.length === 0 ? 'already there' : `${pathLength(agent.position, agent.path).toFixed(1)}m, ${travelTicks(agent.position, agent.path)} tick(s)`;
+};
+
+function learn(state: SimulationState, decision: AIActionResponse, env: EngineEnv, seq: Sequencer): KnowledgeEntry[] {
+  const title = decision.learningNote.split(':')[0] || "Neural Synthesis";
+  if (state.knowledgeBase.some(k => k.title === title)) return state.knowledgeBase;
+  return [...state.knowledgeBase, {
+    id: seq.id('kn'),
+    title,
+    description: decision.learningNote,
+    category: decision.knowledgeCategory,
+    iteration: state.learningIteration,
+    timestamp: env.now(),
+    links: decision.groundingLinks,
+    isHighlight: true
+  }];
+}
+
+// Turns a request for a named blueprint into a PLACE of the first step of its laid-out plan.
+function withBlueprintPlan(state: SimulationState, decision: AIActionResponse, env: EngineEnv, seq: Sequencer): AIActionResponse | undefined {
+  const blueprint = findBlueprint(availableBlueprints(state.blueprints, state.progression.unlockedBlueprints), decision.blueprint!);
+  if (!blueprint) return undefined;
+  const [ax, , az] = decision.position ?? leadAgent(state).position;
+  const plan = instantiateBlueprint(blueprint, [ax, az], env.terrainHeight, seq.id('bp'));
+  return { ...decision, plan, objectType: plan.steps[0].type, position: plan.steps[0].position };
+}
+
+function applyDecision(state: SimulationState, requested: AIActionResponse, env: EngineEnv): SimulationState {
+  const seq = sequencer(state);
+  let next: SimulationState = { ...state, tick: state.tick + 1 };
+  // WAIT carries on with the current order; anything else replaces it.
+  if (requested.action !== 'WAIT') next = updateAgent(next, LEAD_AGENT_ID, { order: undefined });
+
+  if (isMaintenanceAction(requested.action)) return orderMaintenance(seq.commit(next), requested.action, requested.targetId, env);
+
+  const decision = requested.action === 'PLACE' && requested.blueprint ? withBlueprintPlan(state, requested, env, seq) : requested;
+  if (!decision) return appendLog(seq.commit(next), `BLUEPRINT_UNAVAILABLE: "${requested.blueprint}" is unknown or still locked`, 'error', env);
+
+  const resumed = decision.action === 'PLACE' ? pendingBuild(state, decision) : undefined;
+  if (resumed) {
+    next = routeAgent(seq.commit(next), LEAD_AGENT_ID, resumed.position, SITE_REACH, env);
+    return appendLog(next, `CONSTRUCTION_RESUMED: ${resumed.type} ${resumed.id} at ${Math.round(resumed.buildProgress! * 100)}% (${describeRoute(leadAgent(next))})`, 'action', env);
+  }
+
+  const target = resolveTarget(state, decision, env, seq.random);
+  const plan = decision.plan || state.activePlan;
+  const isNewPlan = !!decision.plan && decision.plan.planId !== state.activePlan?.planId;
+  const stepIndex = decision.action === 'PLACE' && target?.placement ? placedStepIndex(plan, target.placement) : -1;
+
+  const waiting = stepIndex === -1 ? [] : unmetDependencies(plan!.steps, stepIndex);
+  if (waiting.length > 0) {
+    // Nothing is built; the plan is pointed at a step that can start instead.
+    next = seq.commit(isNewPlan ? next : { ...next, activePlan: advancePlan(plan!) });
+    return appendLog(next, `STEP_BLOCKED: ${stepLabel(stepIndex)} "${plan!.steps[stepIndex].label}" waits on ${waiting.map(stepLabel).join(', ')}`, 'error', env);
+  }
+
+  if (decision.action === 'PLACE' && target?.placement?.status === 'rejected') {
+    next = routeAgent(seq.commit({ ...next, lastPlacement: target.placement }), LEAD_AGENT_ID, target.position, GRID_SNAP, env);
+    next = appendLog(next, `PLACEMENT_REJECTED: ${describePlacement(target.placement)}`, 'error', env);
+    return !isNewPlan && stepIndex !== -1 ? failCurrentStep(next, target.placement.reason ?? 'placement rejected', env) : next;
+  }
+
+  if (decision.action === 'PLACE' && target) {
+    const replaced = isNewPlan ? state.activePlan : undefined;
+    const newObj = newStructure(seq.id('obj'), target.type, target.position, env);
+    const activePlan = attachToPlan(plan, stepIndex, newObj.id);
+    next = addStructure({
+      ...next,
+      lastPlacement: target.placement,
+      learningIteration: state.learningIteration + 1,
+      activePlan,
+      knowledgeBase: learn(state, decision, env, seq)
+    }, newObj);
+    const task = activePlan && stepIndex !== -1 ? { planId: activePlan.planId, stepIndex, objectId: newObj.id } : undefined;
+    next = routeAgent(seq.commit(updateAgent(next, LEAD_AGENT_ID, { task })), LEAD_AGENT_ID, target.position, SITE_REACH, env);
+    if (replaced) next = recordPlan(next, replaced, 'replaced', `replanned as "${activePlan!.objective}"`, env);
+    if (isNewPlan) {
+      next = appendLog(next, `PLAN_STARTED: "${activePlan!.objective}" with ${activePlan!.steps.length} step${activePlan!.steps.length === 1 ? '' : 's'}`, 'action', env);
+    }
+    if (decision.blueprint) {
+      next = appendLog(next, `BLUEPRINT_LAID_OUT: ${activePlan!.sourceBlueprint}, ${activePlan!.steps.length} steps from ${coords(target.position)}`, 'action', env);
+    }
+    target.violations?.forEach(v => { next = appendLog(next, `DIRECTIVE_VIOLATION: ${describeViolation(v)}`, 'error', env); });
+    if (target.placement?.status === 'nudged') {
+      next = appendLog(next, `PLACEMENT_NUDGED: ${describePlacement(target.placement)}`, 'action', env);
+    }
+    return appendLog(next, `CONSTRUCTION_STARTED: ${buildSummary(target.type, target.position)}, walk ${describeRoute(leadAgent(next))}`, 'action', env);
+  }
+
+  if (decision.action === 'MOVE' && target) {
+    next = routeAgent(seq.commit(next), LEAD_AGENT_ID, target.position, GRID_SNAP, env);
+    return appendLog(next, `RECALIBRATING_SECTOR: Heading to ${coords(target.position)} (${describeRoute(leadAgent(next))}).`, 'action', env);
+  }
+
+  return seq.commit(next);
+}
+
+// Fails the lead's current step; steps depending on it are skipped.
+function failCurrentStep(state: SimulationState, reason: string, env: EngineEnv): SimulationState {
+  const plan = state.activePlan!;
+  const idx = plan.currentStepIndex;
+  const { plan: activePlan, skipped } = failStep(plan, idx, reason);
+  const next = updateAgent({ ...state, activePlan }, LEAD_AGENT_ID, { task: undefined });
+  const cascade = skipped.length ? `; skipped ${skipped.map(stepLabel).join(', ')}` : '';
+  return appendLog(next, `STEP_FAILED: ${stepLabel(idx)} "${plan.steps[idx].label}" (${reason})${cascade}`, 'error', env);
+}
+
+const PLAN_ENDINGS: Record<PlanOutcome, { event: string; type: LogEntry['type'] }> = {
+  completed: { event: 'PLAN_COMPLETED', type: 'success' },
+  failed: { event: 'PLAN_FAILED', type: 'error' },
+  aborted: { event: 'PLAN_ABORTED', type: 'error' },
+  replaced: { event: 'PLAN_REPLANNED', type: 'action' }
+};
+
+// Files a plan in the history and announces how it ended.
+function recordPlan(state: SimulationState, plan: ConstructionPlan, outcome: PlanOutcome, reason: string | undefined, env: Partial<EngineEnv> = {}): SimulationState {
+  const next = { ...state, planHistory: archivePlan(state.planHistory, { plan, outcome, reason, endedTick: state.tick }) };
+  const failed = countSteps(plan, 'failed');
+  const summary = `${countSteps(plan, 'completed')}/${plan.steps.length} steps completed${failed ? `, ${failed} failed` : ''}`;
+  const { event, type } = PLAN_ENDINGS[outcome];
+  return appendLog(next, `${event}: "${plan.objective}" (${summary})${reason ? `; ${reason}` : ''}`, type, env);
+}
+
+// Archives the active plan once every step has completed, failed or been skipped.
+function settlePlan(state: SimulationState, env: EngineEnv): SimulationState {
+  const plan = state.activePlan;
+  if (!plan || !isPlanSettled(plan)) return state;
+  return recordPlan({ ...state, activePlan: undefined }, plan, planOutcome(plan), undefined, env);
+}
+
+// Sends the lead to a structure to remove, repair or upgrade it; the work happens on arrival.
+function orderMaintenance(state: SimulationState, action: MaintenanceAction, targetId: string | undefined, env: EngineEnv): SimulationState {
+  const target = state.objects.find(o => o.id === targetId);
+  if (!target) return appendLog(state, `${action}_FAILED: no structure ${targetId ?? '(none given)'}`, 'error', env);
+  const blocker = maintenanceBlocker(action, target);
+  if (blocker) return appendLog(state, `${action}_FAILED: ${target.type} ${target.id} is ${blocker}`, 'error', env);
+  const next = routeAgent(updateAgent(state, LEAD_AGENT_ID, { order: { action, targetId: target.id } }), LEAD_AGENT_ID, target.position, SITE_REACH, env);
+  return appendLog(next, `${action}_ORDERED: ${target.type} ${target.id} at ${coords(target.position)} (${describeRoute(leadAgent(next))})`, 'action', env);
+}
+
+// Carries out orders for agents standing at their target: repairs a tick's worth, or upgrades or removes outright.
+function runMaintenance(state: SimulationState, env: EngineEnv): SimulationState {
+  let next = state;
+  state.agents.filter(a => a.order).forEach(agent => {
+    const order = agent.order!;
+    const target = next.objects.find(o => o.id === order.targetId);
+    if (!target) {
+      next = updateAgent(next, agent.id, { order: undefined });
+      return;
+    }
+    if (!isOnSite(target, agent.position)) return;
+    const stored = next.economy.resources.materials.stored;
+    const label = `${target.type} ${target.id}`;
+
+    if (order.action === 'REMOVE') {
+      const salvage = salvageValue(target);
+      next = updateAgent(withMaterials(removeStructure(next, target), stored + salvage), agent.id, { order: undefined });
+      next = appendLog(next, `STRUCTURE_REMOVED: ${label}, salvaged ${salvage} materials`, 'action', env);
+      return;
+    }
+
+    const cost = order.action === 'REPAIR' ? repairCost(Math.min(REPAIR_PER_TICK, 100 - healthOf(target))) : upgradeCost(target);
+    if (cost > stored) {
+      next = appendLog(next, `${order.action}_STALLED: ${label} needs ${cost} materials`, 'error', env);
+      return;
+    }
+    const improved = order.action === 'REPAIR'
+      ? withHealth(target, healthOf(target) + REPAIR_PER_TICK)
+      : { ...withHealth(target, 100), level: levelOf(target) + 1 };
+    next = withMaterials({ ...next, objects: next.objects.map(o => o.id === target.id ? improved : o) }, stored - cost);
+    if (order.action === 'UPGRADE') {
+      next = appendLog(updateAgent(next, agent.id, { order: undefined }), `STRUCTURE_UPGRADED: ${label} to level ${improved.level} (${cost} materials)`, 'success', env);
+    } else if (healthOf(improved) >= 100) {
+      next = appendLog(updateAgent(next, agent.id, { order: undefined }), `REPAIR_COMPLETE: ${label} restored to full health`, 'success', env);
+    }
+  });
+  return next;
+}
+
+// A helper takes up its assigned step: it joins a build already started there, or starts one.
+function startHelperBuild(state: SimulationState, agent: BuilderAgent, env: EngineEnv): SimulationState {
+  const task = agent.task!;
+  const plan = state.activePlan;
+  const planStep = plan?.planId === task.planId ? plan.steps[task.stepIndex] : undefined;
+  if (!planStep || isSettled(planStep)) return updateAgent(state, agent.id, { task: undefined });
+
+  if (planStep.objectId) {
+    const existing = state.objects.find(o => o.id === planStep.objectId);
+    const joined = updateAgent(state, agent.id, { task: { ...task, objectId: planStep.objectId } });
+    return routeAgent(joined, agent.id, existing?.position ?? planStep.position, SITE_REACH, env);
+  }
+
+  const site = evaluateSite(state, planStep.type, planStep.position, env.terrainHeight);
+  if (site.placement.status === 'rejected') {
+    // Leave the step to the lead, whose planner replans around rejected steps.
+    const next = updateAgent(updatePlanStep(state, task.stepIndex, { assignee: LEAD_AGENT_ID, status: 'pending' }), agent.id, { task: undefined });
+    return appendLog(next, `[${agent.id}] PLACEMENT_REJECTED: ${describePlacement(site.placement)}`, 'error', env);
+  }
+
+  const seq = sequencer(state);
+  const newObj = newStructure(seq.id('obj'), planStep.type, site.position, env);
+  let next = addStructure(updatePlanStep(state, task.stepIndex, { objectId: newObj.id }), newObj);
+  next = seq.commit(updateAgent(next, agent.id, { task: { ...task, objectId: newObj.id } }));
+  next = routeAgent(next, agent.id, site.position, SITE_REACH, env);
+  site.violations.forEach(v => { next = appendLog(next, `[${agent.id}] DIRECTIVE_VIOLATION: ${describeViolation(v)}`, 'error', env); });
+  if (site.placement.status === 'nudged') {
+    next = appendLog(next, `[${agent.id}] PLACEMENT_NUDGED: ${describePlacement(site.placement)}`, 'action', env);
+  }
+  const walker = next.agents.find(a => a.id === agent.id)!;
+  return appendLog(next, `[${agent.id}] CONSTRUCTION_STARTED: ${buildSummary(planStep.type, site.position)} for "${planStep.label}", walk ${describeRoute(walker)}`, 'action', env);
+}
+
+function runAgents(state: SimulationState, env: EngineEnv): SimulationState {
+  const scheduled = assignTasks(state.activePlan, state.agents);
+  let next: SimulationState = { ...state, activePlan: scheduled.plan, agents: scheduled.agents };
+  next.agents.slice(1).forEach(a => {
+    const agent = next.agents.find(x => x.id === a.id)!;
+    if (agent.task && !agent.task.objectId) next = startHelperBuild(next, agent, env);
+  });
+  return next;
+}
+
+// Every agent walks up to AGENT_SPEED metres along its path.
+function moveAgents(state: SimulationState): SimulationState {
+  const agents = state.agents.map(agent => {
+    if (!agent.path?.length) return { ...agent, trail: undefined };
+    const walked = walkPath(agent.position, agent.path, AGENT_SPEED);
+    return { ...agent, position: walked.position, path: walked.path, trail: walked.trail };
+  });
+  return { ...state, agents };
+}
+
+// Frees agents whose build finished or whose plan was replaced, and refreshes every status.
+function settleAgents(state: SimulationState): SimulationState {
+  const agents = state.agents.map(agent => {
+    let task = agent.task;
+    if (task?.objectId && !state.objects.some(o => o.id === task!.objectId && isUnderConstruction(o))) task = undefined;
+    if (task && !task.objectId && task.planId !== state.activePlan?.planId) task = undefined;
+    const maintaining = agent.order && state.objects.some(o => o.id === agent.order!.targetId && isOnSite(o, agent.position));
+    const building = maintaining || state.objects.some(o => isUnderConstruction(o) && isOnSite(o, agent.position));
+    const walking = !!agent.path?.length;
+    const status: BuilderAgent['status'] = walking || (task && !task.objectId) ? 'moving' : building ? 'building' : 'idle';
+    return { ...agent, task, status, path: walking ? agent.path : undefined };
+  });
+  return { ...state, agents };
+}
+
+function runConstruction(next: SimulationState, env: EngineEnv): SimulationState {
+  const materials = next.economy.resources.materials;
+  const tick = advanceConstruction(next.objects, next.agents.map(a => a.position), materials.stored);
+  if (tick.materialsUsed === 0 && tick.stalled.length === 0) return next;
+
+  let result: SimulationState = {
+    ...next,
+    objects: tick.objects,
+    activePlan: tick.completed.reduce((plan, o) => completePlanStep(plan, o.id), next.activePlan),
+    progression: { ...next.progression, structuresCompleted: next.progression.structuresCompleted + tick.completed.length },
+    economy: {
+      ...next.economy,
+      resources: { ...next.economy.resources, materials: { ...materials, stored: materials.stored - tick.materialsUsed } }
+    }
+  };
+  tick.completed.forEach(o => {
+    result = appendLog(result, `DATA_SYNTH_DEPLOY: ${o.type} at [${o.position[0].toFixed(1)}, ${o.position[2].toFixed(1)}]`, 'success', env);
+  });
+  tick.stalled.forEach(o => {
+    const spec = BUILD_SPECS[o.type];
+    result = appendLog(result, `CONSTRUCTION_STALLED: ${o.type} ${o.id} needs ${(spec.materials / spec.ticks).toFixed(1)} materials per tick`, 'error', env);
+  });
+  return result;
+}
+
+// Wears structures down, ends events that have run their course, rolls for a new one and applies its damage.
+function runEnvironment(state: SimulationState, env: EngineEnv): SimulationState {
+  const seq = sequencer(state);
+  const worn = wear(state.objects);
+  const ongoing = state.events.filter(e => isEventActive(e, state.tick));
+  const ended = state.events.filter(e => !ongoing.includes(e));
+  const fired = rollEvent(state.tick, ongoing, seq.random, () => seq.id('evt'));
+  const damage = fired ? eventDamage(fired, worn, env.terrainHeight) : new Map<string, number>();
+  const objects = worn.map(o => damage.has(o.id) ? withHealth(o, healthOf(o) - damage.get(o.id)!) : o);
+
+  let next = seq.commit({ ...state, objects, events: fired ? [...ongoing, fired] : ongoing });
+  ended.filter(e => e.duration > 1).forEach(e => {
+    next = appendLog(next, `${e.kind.toUpperCase()}_CLEARED: ${EVENT_SPECS[e.kind].label} has passed`, 'success', env);
+  });
+  if (fired) {
+    const hit = damage.size > 0 ? `, ${damage.size} structure(s) damaged` : '';
+    next = appendLog(next, `${fired.kind.toUpperCase()}: ${describeEvent(fired, state.tick)}${hit}`, 'error', env);
+  }
+  objects.filter(o => o.health === 0 && healthOf(state.objects.find(p => p.id === o.id)!) > 0).forEach(o => {
+    next = appendLog(next, `STRUCTURAL_FAILURE: ${o.type} ${o.id} at [${o.position[0].toFixed(1)}, ${o.position[2].toFixed(1)}] is wrecked`, 'error', env);
+  });
+  return next;
+}
+
+// Moves tier, goal and blueprint unlocks to match what now stands, announcing each change.
+function runProgression(state: SimulationState, env: EngineEnv): SimulationState {
+  const update = evaluateProgression(state.objects, state.progression, state.currentGoal);
+  let next: SimulationState = {
+    ...state,
+    currentGoal: update.goal,
+    progression: {
+      ...state.progression,
+      // Compares every pair of structures, so it runs once per tick rather than on every change.
+      complianceScore: complianceScore(state.objects, env.terrainHeight),
+      settlementTier: update.tier,
+      unlockedBlueprints: update.unlockedBlueprints,
+      complexityLevel: update.complexityLevel
+    }
+  };
+  if (update.tier !== state.progression.settlementTier) {
+    const rose = PROGRESSION.tiers.findIndex(t => t.name === update.tier) > PROGRESSION.tiers.findIndex(t => t.name === state.progression.settlementTier);
+    next = appendLog(next, `${rose ? 'TIER_REACHED' : 'TIER_LOST'}: settlement is now a ${update.tier}`, rose ? 'success' : 'error', env);
+  }
+  if (update.goal !== state.currentGoal) {
+    next = appendLog(next, `GOAL_ADVANCED: ${update.goal}`, 'success', env);
+  }
+  update.newlyUnlocked.forEach(name => {
+    next = appendLog(next, `BLUEPRINT_UNLOCKED: ${name}`, 'success', env);
+  });
+  return next;
+}
+
+function runEconomy(prev: SimulationState, next: SimulationState, env: EngineEnv): SimulationState {
+  const economy = tickEconomy(next.economy, next.objects, next.tick, env.terrainHeight, weatherFactor(next.events));
+  let result: SimulationState = { ...next, economy };
+  const wentOffline = economy.offline.filter(id => !prev.economy.offline.includes(id));
+  const restored = prev.economy.offline.filter(id => !economy.offline.includes(id) && next.objects.some(o => o.id === id));
+  if (wentOffline.length > 0) {
+    const shortages = RESOURCE_KINDS.filter(kind => economy.resources[kind].deficit > 0)
+      .map(kind => `${kind} short ${economy.resources[kind].deficit.toFixed(1)}`).join(', ');
+    result = appendLog(result, `GRID_DEFICIT: ${wentOffline.length} structure(s) offline (${shortages})`, 'error', env);
+  }
+  if (restored.length > 0) {
+    result = appendLog(result, `GRID_RESTORED: ${restored.length} structure(s) back online`, 'success', env);
+  }
+  return result;
+}
+
+/**
+ * Applies one validated decision to the lead agent, lets the scheduler put
+ * helper agents to work, walks every agent a tick along its path, advances
+ * construction and maintenance at every occupied site, archives a settled
+ * plan, lets the environment act, runs one tick of the resource economy and
+ * updates progression, and returns the next state. Pure apart from the clock in `env`:
+ * the same state and decision always produce the same world. Never mutates
+ * its input.
+ */
+export function step(state: SimulationState, decision: AIActionResponse, envOverrides: Partial<EngineEnv> = {}): SimulationState {
+  const env = resolveEnv(envOverrides);
+  const acted = moveAgents(runAgents(applyDecision(state, decision, env), env));
+  const worked = settlePlan(runMaintenance(runConstruction(acted, env), env), env);
+  return runProgression(runEconomy(state, runEnvironment(settleAgents(worked), env), env), env);
+}
+
+/** Saves the standing structures around the lead agent as a user blueprint. */
+export function saveBlueprint(state: SimulationState, name: string): SimulationState {
+  try {
+    const blueprint = blueprintFromObjects(name, clusterAround(state.objects, leadAgent(state).position));
+    const next = { ...state, blueprints: addBlueprints(state.blueprints, [blueprint]) };
+    return appendLog(next, `BLUEPRINT_SAVED: ${blueprint.name} with ${blueprint.steps.length} steps`, 'success');
+  } catch (e) {
+    return appendLog(state, `BLUEPRINT_REJECTED: ${e instanceof Error ? e.message : String(e)}`, 'error');
+  }
+}
+
+export function importBlueprints(state: SimulationState, blueprints: Blueprint[]): SimulationState {
+  try {
+    const next = { ...state, blueprints: addBlueprints(state.blueprints, blueprints) };
+    return appendLog(next, `BLUEPRINTS_IMPORTED: ${blueprints.map(b => b.name).join(', ')}`, 'success');
+  } catch (e) {
+    return appendLog(state, `BLUEPRINT_REJECTED: ${e instanceof Error ? e.message : String(e)}`, 'error');
+  }
+}
+
+/** Drops the active plan into the history. Builds already started stay on site. */
+export function abortPlan(state: SimulationState, reason = 'aborted by operator'): SimulationState {
+  if (!state.activePlan) return state;
+  return recordPlan({ ...state, activePlan: undefined }, state.activePlan, 'aborted', reason);
+}
+
+/** Grows or shrinks the builder team; see `resizeAgents`. */
+export function setAgentCount(state: SimulationState, count: number): SimulationState {
+  const { agents, plan } = resizeAgents(state.agents, state.activePlan, count);
+  if (agents.length === state.agents.length) return state;
+  return appendLog({ ...state, agents, activePlan: plan }, `Builder team resized to ${agents.length} agent${agents.length === 1 ? '' : 's'}.`, 'action');
+}
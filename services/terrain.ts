@@ -0,0 +1,9 @@
+export const TERRAIN_SIZE = 120;
+export const TERRAIN_HALF = TERRAIN_SIZE / 2;
+
+export const getTerrainHeight = (x: number, z: number) => {
+  return Math.sin(x * 0.2) * Math.cos(z * 0.2) * 1.2;
+};
+
+export const isWithinTerrain = (x: number, z: number) =>
+  Math.abs(x) <= TERRAIN_HALF && Math.abs(z) <= TERRAIN_HALF;
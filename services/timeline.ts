@@ -0,0 +1,111 @@
+import { SimulationState } from "../types";
+import { AIActionResponse } from "./aiLogic";
+import { appendLog } from "./simulationEngine";
+import { describeClock } from "./environment";
+
+// Older steps are dropped past this, keeping the start of the timeline moving forward.
+export const TIMELINE_LIMIT = 200;
+
+export interface TimelineEntry {
+  state: SimulationState;
+  // The decision that produced this state; absent for the first entry.
+  action?: AIActionResponse['action'];
+  label: string;
+}
+
+/**
+ * Every state the simulation has passed through, one entry per applied
+ * decision. `cursor` is the entry on screen; edits outside a step (logs,
+ * settings) land on that entry.
+ */
+export interface Timeline {
+  entries: TimelineEntry[];
+  cursor: number;
+}
+
+export const createTimeline = (state: SimulationState, label = 'Start'): Timeline => ({ entries: [{ state, label }], cursor: 0 });
+
+export const currentState = (timeline: Timeline) => timeline.entries[timeline.cursor].state;
+
+// The latest state, whichever entry is on screen.
+export const headState = (timeline: Timeline) => timeline.entries[timeline.entries.length - 1].state;
+
+export const isAtHead = (timeline: Timeline) => timeline.cursor === timeline.entries.length - 1;
+
+export function updateCurrent(timeline: Timeline, state: SimulationState): Timeline {
+  if (state === currentState(timeline)) return timeline;
+  return { ...timeline, entries: timeline.entries.map((e, idx) => idx === timeline.cursor ? { ...e, state } : e) };
+}
+
+/** Writes to the latest entry; logs and uplink status never rewrite an earlier step. */
+export function updateHead(timeline: Timeline, state: SimulationState): Timeline {
+  const head = timeline.entries.length - 1;
+  if (state === timeline.entries[head].state) return timeline;
+  return { ...timeline, entries: timeline.entries.map((e, idx) => idx === head ? { ...e, state } : e) };
+}
+
+export function describeTransition(decision: AIActionResponse): string {
+  if (decision.action === 'PLACE') return decision.blueprint ? `PLACE ${decision.blueprint}` : `PLACE ${decision.objectType ?? 'structure'}`;
+  if (decision.targetId) return `${decision.action} ${decision.targetId}`;
+  return decision.action;
+}
+
+const branchNote = (timeline: Timeline, discarded: number) =>
+  `TIMELINE_BRANCHED: resumed from ${describeClock(currentState(timeline).tick)}, ${discarded} later step(s) discarded`;
+
+/**
+ * Discards the entries after the cursor, so the selected point becomes the
+ * head and the run branches from it. Called when a decision starts, so what
+ * the decision logs lands on the branch rather than on discarded steps.
+ */
+export function branch(timeline: Timeline): Timeline {
+  const discarded = timeline.entries.length - 1 - timeline.cursor;
+  if (discarded === 0) return timeline;
+  const entry = timeline.entries[timeline.cursor];
+  const entries = [...timeline.entries.slice(0, timeline.cursor), { ...entry, state: appendLog(entry.state, branchNote(timeline, discarded), 'action') }];
+  return { entries, cursor: entries.length - 1 };
+}
+
+/**
+ * Appends the state a decision produced after the cursor. When the cursor
+ * is behind the head, the later entries are discarded and the run branches
+ * from the selected point.
+ */
+export function recordStep(timeline: Timeline, decision: AIActionResponse, next: SimulationState): Timeline {
+  const discarded = timeline.entries.length - 1 - timeline.cursor;
+  const state = discarded > 0 ? appendLog(next, branchNote(timeline, discarded), 'action') : next;
+  const entries = [...timeline.entries.slice(0, timeline.cursor + 1), { state, action: decision.action, label: describeTransition(decision) }].slice(-TIMELINE_LIMIT);
+  return { entries, cursor: entries.length - 1 };
+}
+
+/** Moves the cursor, keeping the panel layout of the state being left. */
+export function seek(timeline: Timeline, index: number): Timeline {
+  const cursor = Math.max(0, Math.min(timeline.entries.length - 1, index));
+  if (cursor === timeline.cursor) return timeline;
+  const ui = currentState(timeline).ui;
+  return { cursor, entries: timeline.entries.map((e, idx) => idx === cursor ? { ...e, state: { ...e.state, ui } } : e) };
+}
+
+// The latest placement at or before the cursor; undoing it returns to the entry before it.
+function lastPlacement(timeline: Timeline): number {
+  for (let idx = timeline.cursor; idx > 0; idx--) {
+    if (timeline.entries[idx].action === 'PLACE') return idx;
+  }
+  return -1;
+}
+
+const nextPlacement = (timeline: Timeline) =>
+  timeline.entries.findIndex((e, idx) => idx > timeline.cursor && e.action === 'PLACE');
+
+export const canUndoPlacement = (timeline: Timeline) => lastPlacement(timeline) !== -1;
+export const canRedoPlacement = (timeline: Timeline) => nextPlacement(timeline) !== -1;
+
+export function undoPlacement(timeline: Timeline): Timeline {
+  const idx = lastPlacement(timeline);
+  return idx === -1 ? timeline : seek(timeline, idx - 1);
+}
+
+export function redoPlacement(timeline: Timeline): Timeline {
+  const idx = nextPlacement(timeline);
+  return idx === -1 ? timeline : seek(timeline, idx);
+}
@@ -0,0 +1,208 @@
+import { ConstructionPlan, DirectiveMode, KnowledgeEntry, ProgressionStats, SimulationState, WorldObject } from "../types";
+import { KNOWLEDGE_CATEGORIES, WORLD_OBJECT_TYPES, validateConstructionPlan } from "./responseValidation";
+import { DEFAULT_ENV, EngineEnv, appendLog, createInitialState } from "./simulationEngine";
+import { complianceScore } from "./directives";
+import { MAX_LEVEL, conditionFor } from "./maintenance";
+import { advancePlan } from "./planGraph";
+
+export const WORLD_FILE_FORMAT = 'architect-os-world';
+export const WORLD_FILE_VERSION = 1;
+
+const TIERS: ProgressionStats['settlementTier'][] = ['Outpost', 'Colony', 'Settlement', 'Citadel'];
+
+/**
+ * A settlement as it can leave and re-enter the app. Agents, logs, events and
+ * the economy are not kept: an imported world starts with a fresh crew and
+ * stores, and the engine rebuilds the rest on the next tick.
+ */
+export interface WorldFile {
+  format: typeof WORLD_FILE_FORMAT;
+  version: number;
+  exportedAt: string;
+  seed: number;
+  directiveMode: DirectiveMode;
+  currentGoal: string;
+  objects: WorldObject[];
+  activePlan?: ConstructionPlan;
+  knowledgeBase: KnowledgeEntry[];
+  progression: ProgressionStats;
+}
+
+export const createWorldFile = (state: SimulationState, exportedAt = new Date()): WorldFile => ({
+  format: WORLD_FILE_FORMAT,
+  version: WORLD_FILE_VERSION,
+  exportedAt: exportedAt.toISOString(),
+  seed: state.seed,
+  directiveMode: state.directiveMode,
+  currentGoal: state.currentGoal,
+  objects: state.objects,
+  activePlan: state.activePlan,
+  knowledgeBase: state.knowledgeBase,
+  progression: state.progression
+});
+
+export const serializeWorld = (state: SimulationState) => JSON.stringify(createWorldFile(state), null, 2);
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isText = (v: unknown): v is string => typeof v === 'string' && v.trim().length > 0;
+const isVector = (v: unknown): v is [number, number, number] => Array.isArray(v) && v.length === 3 && v.every(isNumber);
+const inRange = (v: unknown, min: number, max: number): v is number | undefined => v === undefined || (isNumber(v) && v >= min && v <= max);
+const isOneOf = <T>(values: readonly T[], v: unknown): v is T => values.includes(v as T);
+
+function vector(raw: Record<string, unknown>, key: 'position' | 'rotation' | 'scale', field: string): [number, number, number] {
+  const v = raw[key];
+  if (!isVector(v)) throw new Error(`${field}.${key} is not three numbers`);
+  return [v[0], v[1], v[2]];
+}
+
+/** Checks one structure, throwing an Error that names the first bad field. Saves share it. */
+export function parseObject(raw: unknown, field: string): WorldObject {
+  if (!isRecord(raw)) throw new Error(`${field} is not an object`);
+  const { id, type, timestamp, buildProgress, health, level } = raw;
+  if (!isText(id)) throw new Error(`${field}.id is missing`);
+  if (!isOneOf(WORLD_OBJECT_TYPES, type)) throw new Error(`${field}.type "${String(type)}" is not a known type`);
+  const position = vector(raw, 'position', field);
+  const rotation = vector(raw, 'rotation', field);
+  const scale = vector(raw, 'scale', field);
+  if (!isNumber(timestamp)) throw new Error(`${field}.timestamp is not a number`);
+  if (!inRange(buildProgress, 0, 1)) throw new Error(`${field}.buildProgress must be between 0 and 1`);
+  if (!inRange(health, 0, 100)) throw new Error(`${field}.health must be between 0 and 100`);
+  if (!inRange(level, 1, MAX_LEVEL) || !(level === undefined || Number.isInteger(level))) {
+    throw new Error(`${field}.level must be a whole number from 1 to ${MAX_LEVEL}`);
+  }
+  // Condition always follows health, so it is derived rather than trusted.
+  return {
+    id,
+    type,
+    position,
+    rotation,
+    scale,
+    timestamp,
+    buildProgress,
+    health,
+    condition: health === undefined ? undefined : conditionFor(health),
+    level
+  };
+}
+
+function parseKnowledge(raw: unknown, field: string): KnowledgeEntry {
+  if (!isRecord(raw)) throw new Error(`${field} is not an object`);
+  const { id, title, description, category, iteration, timestamp } = raw;
+  if (!isText(id)) throw new Error(`${field}.id is missing`);
+  if (!isText(title)) throw new Error(`${field}.title is missing`);
+  if (!isText(description)) throw new Error(`${field}.description is missing`);
+  if (!isOneOf(KNOWLEDGE_CATEGORIES, category)) throw new Error(`${field}.category "${String(category)}" is not a known category`);
+  if (!isNumber(iteration) || !isNumber(timestamp)) throw new Error(`${field}.iteration and timestamp must be numbers`);
+  const links = Array.isArray(raw.links)
+    ? raw.links.filter(isRecord).filter(l => isText(l.uri)).map(l => ({ uri: String(l.uri), title: String(l.title ?? l.uri) }))
+    : undefined;
+  return { id, title, description, category, iteration, timestamp, links, isHighlight: raw.isHighlight === true || undefined };
+}
+
+function parseProgression(raw: unknown): ProgressionStats {
+  if (!isRecord(raw)) throw new Error('progression is not an object');
+  const number = (key: 'complexityLevel' | 'structuresCompleted' | 'totalBlocks' | 'complianceScore') => {
+    const v = raw[key];
+    if (!isNumber(v)) throw new Error(`progression.${key} is not a number`);
+    return v;
+  };
+  const complexityLevel = number('complexityLevel');
+  const structuresCompleted = number('structuresCompleted');
+  const totalBlocks = number('totalBlocks');
+  const complianceScore = number('complianceScore');
+  const { settlementTier, unlockedBlueprints } = raw;
+  if (!isOneOf(TIERS, settlementTier)) throw new Error(`progression.settlementTier "${String(settlementTier)}" is not a known tier`);
+  if (!Array.isArray(unlockedBlueprints) || !unlockedBlueprints.every(isText)) throw new Error('progression.unlockedBlueprints is not a list of names');
+  return { complexityLevel, structuresCompleted, totalBlocks, unlockedBlueprints: [...unlockedBlueprints], settlementTier, complianceScore };
+}
+
+/**
+ * The plan is held to the same rules as one from a decision provider, except
+ * that nothing is repaired: any issue rejects the file. Steps keep their link
+ * to an object that is still in the world; claims by agents are dropped, since
+ * the crew does not travel with the file.
+ */
+function parsePlan(raw: unknown, objects: WorldObject[]): ConstructionPlan {
+  const { value, issues } = validateConstructionPlan(raw, 'activePlan');
+  // Issues read "<problem>; <repair>", and no repair is made here.
+  if (!value || issues.length > 0) throw new Error(issues[0]?.split(';')[0] ?? 'activePlan is malformed');
+  const rawSteps = isRecord(raw) && Array.isArray(raw.steps) ? raw.steps : [];
+  const ids = new Set(objects.map(o => o.id));
+  const steps = value.steps.map((s, idx) => {
+    const rawStep: unknown = rawSteps[idx];
+    const objectId = isRecord(rawStep) ? rawStep.objectId : undefined;
+    if (objectId === undefined) return s.status === 'active' ? { ...s, status: 'pending' as const } : s;
+    if (typeof objectId !== 'string' || !ids.has(objectId)) throw new Error(`activePlan.steps[${idx}].objectId "${String(objectId)}" is not in objects`);
+    return { ...s, objectId };
+  });
+  return advancePlan({ ...value, steps });
+}
+
+/** Reads a world file, throwing an Error that names the first bad field. */
+export function parseWorldFile(json: string): WorldFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('World file is not valid JSON');
+  }
+  const format = isRecord(data) ? data.format : undefined;
+  if (!isRecord(data) || format !== WORLD_FILE_FORMAT) throw new Error(`Not a world file (format is ${JSON.stringify(format)}, expected "${WORLD_FILE_FORMAT}")`);
+  if (data.version !== WORLD_FILE_VERSION) {
+    throw new Error(`Unsupported world file version ${String(data.version)} (expected ${WORLD_FILE_VERSION})`);
+  }
+  const { seed, directiveMode, currentGoal, knowledgeBase, activePlan } = data;
+  if (!isNumber(seed) || !Number.isInteger(seed)) throw new Error('seed is not a whole number');
+  if (directiveMode !== 'soft' && directiveMode !== 'hard') throw new Error('directiveMode must be "soft" or "hard"');
+  if (!isText(currentGoal)) throw new Error('currentGoal is missing');
+  if (!Array.isArray(data.objects)) throw new Error('objects is not a list');
+  if (!Array.isArray(knowledgeBase)) throw new Error('knowledgeBase is not a list');
+
+  const objects = data.objects.map((o: unknown, i: number) => parseObject(o, `objects[${i}]`));
+  const seen = new Set<string>();
+  objects.forEach((o, i) => {
+    if (seen.has(o.id)) throw new Error(`objects[${i}].id "${o.id}" is used more than once`);
+    seen.add(o.id);
+  });
+  return {
+    format: WORLD_FILE_FORMAT,
+    version: WORLD_FILE_VERSION,
+    exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : '',
+    seed,
+    directiveMode,
+    currentGoal,
+    objects,
+    activePlan: activePlan === undefined || activePlan === null ? undefined : parsePlan(activePlan, objects),
+    knowledgeBase: knowledgeBase.map((k: unknown, i: number) => parseKnowledge(k, `knowledgeBase[${i}]`)),
+    progression: parseProgression(data.progression)
+  };
+}
+
+// Highest counter behind any "<prefix>-<base36>" id, so new ids never collide with imported ones.
+const highestId = (ids: string[]) =>
+  ids.reduce((max, id) => Math.max(max, parseInt(id.split('-').pop() ?? '', 36) || 0), 0);
+
+/**
+ * Rebuilds a running state from a world file on top of a fresh initial state.
+ * Totals and compliance are recomputed from the objects rather than trusted.
+ */
+export function stateFromWorld(world: WorldFile, { agentCount = 1 } = {}, env: Partial<EngineEnv> = {}): SimulationState {
+  const base = createInitialState(world.seed, { directiveMode: world.directiveMode, agentCount });
+  const ids = [...world.objects.map(o => o.id), ...world.knowledgeBase.map(k => k.id), world.activePlan?.planId ?? ''];
+  const state: SimulationState = {
+    ...base,
+    objects: world.objects,
+    activePlan: world.activePlan,
+    knowledgeBase: world.knowledgeBase,
+    currentGoal: world.currentGoal,
+    learningIteration: Math.max(0, ...world.knowledgeBase.map(k => k.iteration)),
+    idCounter: highestId(ids),
+    progression: {
+      ...world.progression,
+      totalBlocks: world.objects.length,
+      complianceScore: complianceScore(world.objects, env.terrainHeight ?? DEFAULT_ENV.terrainHeight)
+    }
+  };
+  return appendLog(state, `WORLD_IMPORTED: ${world.objects.length} structures, ${world.knowledgeBase.length} knowledge entries${world.activePlan ? `, plan "${world.activePlan.objective}"` : ''}`, 'success', env);
+}
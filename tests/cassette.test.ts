@@ -0,0 +1,61 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SimulationState } from '../types';
+import { DecisionProvider } from '../services/aiLogic';
+import { createCassette, createRecordingProvider, createReplayProvider, parseCassette, serializeCassette } from '../services/cassette';
+import { localPlannerProvider } from '../services/localPlanner';
+import { validateDecision } from '../services/responseValidation';
+import { createInitialState, decisionContext, step } from '../services/simulationEngine';
+
+const SEED = 1234;
+const STEPS = 12;
+
+// Any attempt to reach an endpoint fails the test instead of touching the network.
+globalThis.fetch = async () => {
+  throw new Error('network access during a cassette test');
+};
+
+// The same loop the CLI runs, on a fixed clock so both runs stamp identical times.
+async function run(provider: DecisionProvider, seed: number): Promise<SimulationState> {
+  let clock = 0;
+  const env = { now: () => clock };
+  let state = createInitialState(seed);
+  for (let i = 0; i < STEPS; i++) {
+    const { value: decision } = validateDecision(await provider.decide(decisionContext(state)), state.activePlan);
+    clock += 1000;
+    state = step(state, decision, env);
+  }
+  return state;
+}
+
+test('a replayed cassette rebuilds the recorded world', async () => {
+  const cassette = createCassette(SEED);
+  const recorded = await run(createRecordingProvider(localPlannerProvider, cassette), SEED);
+  assert.equal(cassette.entries.length, STEPS);
+
+  const tape = parseCassette(serializeCassette(cassette));
+  assert.equal(tape.seed, SEED);
+  const replay = createReplayProvider(tape, { strict: true });
+  const replayed = await run(replay, tape.seed ?? 0);
+
+  assert.equal(replay.remaining(), 0);
+  assert.ok(recorded.objects.length > 0);
+  assert.deepEqual(replayed.objects, recorded.objects);
+  assert.deepEqual(replayed.progression, recorded.progression);
+  assert.equal(replayed.currentGoal, recorded.currentGoal);
+});
+
+test('strict replay against a different world reports the divergence', async () => {
+  const cassette = createCassette(SEED);
+  await run(createRecordingProvider(localPlannerProvider, cassette), SEED);
+  const replay = createReplayProvider(cassette, { strict: true });
+  const moved = { ...createInitialState(SEED), objects: (await run(localPlannerProvider, SEED)).objects };
+  await assert.rejects(replay.decide(decisionContext(moved)), /Replay diverged at entry 0/);
+});
+
+test('parseCassette rejects malformed tapes', () => {
+  assert.throws(() => parseCassette('not json'), /not valid JSON/);
+  assert.throws(() => parseCassette(JSON.stringify({ version: 99, entries: [] })), /Unsupported cassette version 99/);
+  assert.throws(() => parseCassette(JSON.stringify({ version: 1 })), /no entries array/);
+  assert.throws(() => parseCassette(JSON.stringify({ version: 1, entries: [{ input: { goal: 'g' }, response: {} }] })), /entry 0 is malformed/);
+});
@@ -0,0 +1,34 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createPartialStepReader } from '../services/decisionStream';
+
+// Feeds `json` to a fresh reader in `size`-character pieces and collects what each call returns.
+function readInPieces(json: string, size: number): string[][] {
+  const read = createPartialStepReader();
+  const calls: string[][] = [];
+  for (let end = size; end < json.length + size; end += size) calls.push(read(json.slice(0, end)));
+  return calls;
+}
+
+test('steps are returned once each, as soon as they close', () => {
+  const json = JSON.stringify({ action: 'WAIT', reasoningSteps: ['Scan "sector" 7', 'Check\\flux', 'Hold'], reason: 'x' });
+  for (const size of [1, 3, 7, json.length]) {
+    assert.deepEqual(readInPieces(json, size).flat(), ['Scan "sector" 7', 'Check\\flux', 'Hold']);
+  }
+});
+
+test('nothing is returned before the array opens or after it closes', () => {
+  const read = createPartialStepReader();
+  assert.deepEqual(read('{"reason": "reasoningSteps", "reasoningSte'), []);
+  assert.deepEqual(read('{"reason": "reasoningSteps", "reasoningSteps": ["a", "b'), ['a']);
+  assert.deepEqual(read('{"reason": "reasoningSteps", "reasoningSteps": ["a", "b"], "taskLabel": ["c"]'), ['b']);
+  assert.deepEqual(read('{"reason": "reasoningSteps", "reasoningSteps": ["a", "b"], "taskLabel": ["c"], "x": "d"}'), []);
+});
+
+test('an invalid entry stops extraction without throwing', () => {
+  const escape = createPartialStepReader();
+  assert.deepEqual(escape('{"reasoningSteps": ["ok", "bad \\q escape", "later"'), ['ok']);
+  assert.deepEqual(escape('{"reasoningSteps": ["ok", "bad \\q escape", "later"]}'), []);
+  const control = createPartialStepReader();
+  assert.deepEqual(control('{"reasoningSteps": ["raw \n break", "later"]}'), []);
+});
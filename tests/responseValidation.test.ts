@@ -0,0 +1,26 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { validateDecision } from '../services/responseValidation';
+import { createInitialState, step } from '../services/simulationEngine';
+
+const BASE = { reason: 'r', reasoningSteps: ['s'], learningNote: 'a: b', knowledgeCategory: 'Energy', taskLabel: 't' };
+
+test('a PLACE naming a blueprint needs no position', () => {
+  const { value, issues } = validateDecision({ ...BASE, action: 'PLACE', blueprint: 'Geothermal Core' });
+  assert.equal(value.action, 'PLACE');
+  assert.equal(value.blueprint, 'Geothermal Core');
+  assert.deepEqual(issues, []);
+
+  // The engine then lays the blueprint out at the lead agent.
+  const state = createInitialState(21);
+  const next = step(state, value);
+  assert.equal(next.activePlan?.sourceBlueprint, 'Geothermal Core');
+  assert.equal(next.objects.length, 1);
+  assert.ok(next.logs.some(l => l.message.startsWith('BLUEPRINT_LAID_OUT')));
+});
+
+test('a PLACE with no position, plan step or blueprint becomes WAIT', () => {
+  const { value, issues } = validateDecision({ ...BASE, action: 'PLACE' });
+  assert.equal(value.action, 'WAIT');
+  assert.match(issues[0], /no position, plan step or blueprint/);
+});
@@ -0,0 +1,51 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SAVE_SCHEMA_VERSION, createSnapshot, restoreSnapshot } from '../services/saveGame';
+import { createInitialState } from '../services/simulationEngine';
+
+// A state as builds before the headless engine kept it: no seed, clock, crew or economy.
+const V0_STATE = {
+  objects: [{ id: '0.41', type: 'solar_panel', position: [0, 0, 0], rotation: [0, 0, 0], scale: [1, 1, 1], timestamp: 1 }],
+  logs: [{ id: '1', type: 'success', message: 'Uplink established', timestamp: 1 }],
+  knowledgeBase: [],
+  currentGoal: 'Establish Energy Grid',
+  learningIteration: 3,
+  progression: { complexityLevel: 1, structuresCompleted: 1, totalBlocks: 1, unlockedBlueprints: [], settlementTier: 'Outpost' },
+  networkStatus: 'offline',
+  isScanning: true,
+  ui: { showStats: false, showKnowledge: true, showLogs: true, showPlanning: true }
+};
+
+test('a v0 snapshot is migrated to the current schema', () => {
+  const state = restoreSnapshot({ schemaVersion: 0, slot: 'old', savedAt: 1, state: V0_STATE });
+  assert.deepEqual(state.objects, V0_STATE.objects);
+  assert.equal(state.learningIteration, 3);
+  assert.deepEqual(state.ui, V0_STATE.ui);
+  assert.equal(state.isScanning, false);
+  assert.equal(state.agents.length, 1);
+  assert.equal(typeof state.seed, 'number');
+  assert.equal(state.progression.complianceScore, 100);
+  assert.ok(state.economy);
+});
+
+test('a current snapshot round-trips unchanged', () => {
+  const original = createInitialState(42);
+  assert.deepEqual(restoreSnapshot(createSnapshot('slot', original, 5)), { ...original, isScanning: false });
+});
+
+test('unreadable snapshots are reported by slot', () => {
+  assert.throws(() => restoreSnapshot({ slot: 'a', state: V0_STATE }), /Save "a" has no schema version/);
+  assert.throws(() => restoreSnapshot({ schemaVersion: SAVE_SCHEMA_VERSION + 1, slot: 'b' }), /Save "b" was written by a newer build/);
+  assert.throws(() => restoreSnapshot({ schemaVersion: 0, slot: 'c', state: { logs: [] } }), /Save "c" failed to upgrade from schema v0/);
+  assert.throws(() => restoreSnapshot({ schemaVersion: SAVE_SCHEMA_VERSION, slot: 'd', state: { ...createInitialState(1), agents: [] } }), /Save "d" is corrupted: there are no builder agents/);
+});
+
+test('malformed entries inside a snapshot are reported as corruption', () => {
+  const base = createInitialState(9);
+  const corrupt = (slot: string, state: object) => () => restoreSnapshot({ schemaVersion: SAVE_SCHEMA_VERSION, slot, state: { ...base, ...state } });
+  assert.throws(corrupt('o', { objects: [{ ...V0_STATE.objects[0], position: [0, 0] }] }), /Save "o" is corrupted: objects\[0\]\.position is not three numbers/);
+  assert.throws(corrupt('a', { agents: [{ ...base.agents[0], status: 'flying' }] }), /Save "a" is corrupted: agents\[0\]\.status "flying"/);
+  assert.throws(corrupt('l', { logs: [null] }), /Save "l" is corrupted: logs\[0\] is malformed/);
+  const resources = { ...base.economy.resources, water: { ...base.economy.resources.water, stored: 'full' } };
+  assert.throws(corrupt('e', { economy: { ...base.economy, resources } }), /Save "e" is corrupted: economy\.resources\.water\.stored is not a number/);
+});
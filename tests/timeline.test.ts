@@ -0,0 +1,33 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AIActionResponse } from '../services/aiLogic';
+import { appendLog, createInitialState } from '../services/simulationEngine';
+import { branch, createTimeline, currentState, headState, recordStep, seek, updateHead } from '../services/timeline';
+
+const WAIT: AIActionResponse = { action: 'WAIT', reason: 'hold', reasoningSteps: [], learningNote: 'Hold: wait', knowledgeCategory: 'Synthesis', taskLabel: 'Hold' };
+
+// Three entries: the start and two later steps, told apart by tick.
+function threeSteps() {
+  const start = createInitialState(3);
+  let timeline = createTimeline(start);
+  timeline = recordStep(timeline, WAIT, { ...start, tick: 1 });
+  return recordStep(timeline, WAIT, { ...start, tick: 2 });
+}
+
+test('logs written while scrubbed land on the latest step', () => {
+  const scrubbed = seek(threeSteps(), 0);
+  const before = currentState(scrubbed);
+  const logged = updateHead(scrubbed, appendLog(headState(scrubbed), 'uplink note', 'action'));
+  assert.equal(currentState(logged), before);
+  assert.equal(headState(logged).logs.at(-1)?.message, 'uplink note');
+  assert.equal(logged.cursor, 0);
+});
+
+test('branching drops later steps and logs the branch on the selected one', () => {
+  const branched = branch(seek(threeSteps(), 1));
+  assert.equal(branched.entries.length, 2);
+  assert.equal(branched.cursor, 1);
+  assert.equal(headState(branched).tick, 1);
+  assert.match(headState(branched).logs.at(-1)?.message ?? '', /TIMELINE_BRANCHED: .*1 later step\(s\) discarded/);
+  assert.equal(branch(branched), branched);
+});
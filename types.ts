@@ -3,13 +3,26 @@ export type WorldObjectType = 'wall' | 'roof' | 'door' | 'crop' | 'tree' | 'well
 
 export type KnowledgeCategory = 'Infrastructure' | 'Energy' | 'Environment' | 'Architecture' | 'Synthesis';
 
+// soft: violations are logged; hard: violating placements are rejected.
+export type DirectiveMode = 'soft' | 'hard';
+
 export type SettlementTier = 'Outpost' | 'Colony' | 'Settlement' | 'Citadel';
 
+export type PlanStepStatus = 'pending' | 'active' | 'completed' | 'failed' | 'skipped';
+
 export interface PlanStep {
   label: string;
   type: WorldObjectType;
   position: [number, number, number];
-  status: 'pending' | 'active' | 'completed';
+  status: PlanStepStatus;
+  // Indices of earlier steps that must be completed before this one starts.
+  dependsOn?: number[];
+  // Why the step failed or was skipped.
+  reason?: string;
+  // Object placed for this step; the step completes when its build finishes.
+  objectId?: string;
+  // Agent that has taken the step.
+  assignee?: string;
 }
 
 export interface WorldObject {
@@ -19,6 +32,97 @@ export interface WorldObject {
   rotation: [number, number, number];
   scale: [number, number, number];
   timestamp: number;
+  // 0..1 while under construction; absent once built.
+  buildProgress?: number;
+  // Structural health 0..100; absent means undamaged. At 0 the structure stops working.
+  health?: number;
+  // Follows health; see services/maintenance.ts.
+  condition?: StructureCondition;
+  // Upgrade level from 1; absent means 1.
+  level?: number;
+}
+
+export type StructureCondition = 'sound' | 'worn' | 'damaged' | 'wrecked';
+
+export type MaintenanceAction = 'REMOVE' | 'REPAIR' | 'UPGRADE';
+
+// Work on an existing structure, carried out once the agent reaches it.
+export interface MaintenanceOrder {
+  action: MaintenanceAction;
+  targetId: string;
+}
+
+export type EnvironmentEventKind = 'seismic_tremor' | 'dust_storm' | 'meteor_strike';
+
+export interface EnvironmentEvent {
+  id: string;
+  kind: EnvironmentEventKind;
+  startedTick: number;
+  // Ticks the event lasts, counting the one it started on.
+  duration: number;
+  // 0..1
+  intensity: number;
+  epicenter?: [number, number];
+}
+
+// A plan step positioned relative to the anchor its blueprint is laid out at.
+export interface BlueprintStep extends Pick<PlanStep, 'label' | 'type' | 'dependsOn'> {
+  offset: [number, number];
+}
+
+export interface Blueprint {
+  name: string;
+  objective: string;
+  category: KnowledgeCategory;
+  note: string;
+  steps: BlueprintStep[];
+}
+
+export interface PlacementOutcome {
+  status: 'accepted' | 'nudged' | 'rejected';
+  type: WorldObjectType;
+  requested: [number, number];
+  // Where the object actually went (x, z); absent when rejected.
+  resolved?: [number, number];
+  reason?: string;
+}
+
+export type ResourceKind = 'power' | 'water' | 'materials';
+
+// Per-tick flow of one resource; `deficit` is demand that went unmet.
+export interface ResourceStatus {
+  produced: number;
+  demanded: number;
+  stored: number;
+  capacity: number;
+  deficit: number;
+}
+
+export interface EconomyState {
+  resources: Record<ResourceKind, ResourceStatus>;
+  // Ids of consumers that could not be supplied on the last tick.
+  offline: string[];
+}
+
+export type AgentStatus = 'idle' | 'moving' | 'building';
+
+export interface AgentTask {
+  planId: string;
+  stepIndex: number;
+  objectId?: string;
+}
+
+export interface BuilderAgent {
+  id: string;
+  color: string;
+  position: [number, number, number];
+  status: AgentStatus;
+  task?: AgentTask;
+  order?: MaintenanceOrder;
+  // Waypoints still to walk, nearest first.
+  path?: [number, number, number][];
+  // Points walked through during the last tick, ending at `position`.
+  trail?: [number, number, number][];
 }
 
 export interface LogEntry {
@@ -52,12 +156,22 @@ export interface ConstructionPlan {
   objective: string;
 }
 
+export type PlanOutcome = 'completed' | 'failed' | 'aborted' | 'replaced';
+
+export interface PlanRecord {
+  plan: ConstructionPlan;
+  outcome: PlanOutcome;
+  reason?: string;
+  endedTick: number;
+}
+
 export interface ProgressionStats {
   complexityLevel: number;
   structuresCompleted: number;
   totalBlocks: number;
   unlockedBlueprints: string[];
   settlementTier: SettlementTier;
+  complianceScore: number;
 }
 
 export interface SimulationState {
@@ -67,9 +181,24 @@ export interface SimulationState {
   currentGoal: string;
   learningIteration: number;
   progression: ProgressionStats;
-  networkStatus: 'offline' | 'uplink_active' | 'syncing';
+  networkStatus: 'offline' | 'degraded' | 'uplink_active' | 'syncing';
   activePlan?: ConstructionPlan;
+  // Plans that finished or were abandoned, oldest first.
+  planHistory: PlanRecord[];
+  // Blueprints saved or imported by the user, alongside the built-in library.
+  blueprints: Blueprint[];
+  lastPlacement?: PlacementOutcome;
+  directiveMode: DirectiveMode;
+  economy: EconomyState;
   isScanning: boolean;
+  // agents[0] is the lead, steered by the decision provider.
+  agents: BuilderAgent[];
+  // Events still in effect, including any that fired on the last tick.
+  events: EnvironmentEvent[];
+  tick: number;
+  seed: number;
+  rngState: number;
+  idCounter: number;
   ui: {
     showStats: boolean;
     showKnowledge: boolean;